@@ -0,0 +1,22 @@
+// ============================================
+// Index Assets
+// Rebuilds public/assets/assets.catalog.json - run after adding,
+// replacing or removing files under public/assets
+//
+//   npm run index-assets [-- <publicDir>]
+// ============================================
+
+import { join, resolve } from 'path';
+import { ASSET_CATALOG_PATH } from '../src/processing/assetCatalog';
+import { indexAssetLibrary, writeAssetCatalog } from '../src/processing/assetCatalogFile';
+
+const publicDir = resolve(process.argv[2] ?? join(__dirname, '..', 'public'));
+
+console.log(`Indexing ${join(publicDir, 'assets')}...`);
+const catalog = indexAssetLibrary(publicDir);
+writeAssetCatalog(publicDir, catalog);
+
+for (const entry of catalog.entries) {
+  console.log(`  - ${entry.path} (${entry.type}, ${entry.durationSeconds.toFixed(2)}s)`);
+}
+console.log(`Wrote ${catalog.entries.length} entries to ${join(publicDir, ASSET_CATALOG_PATH)}`);
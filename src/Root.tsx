@@ -1,31 +1,38 @@
-import { Composition, staticFile } from 'remotion';
+import { Composition, staticFile, type CalculateMetadataFunction } from 'remotion';
+import type { z } from 'zod';
 import { Video, videoSchema } from './Video';
 import { CAPTION_STYLES } from './components/Text/TextStyles';
 import { DEFAULT_PROJECT_CONFIG } from './types';
-import type { Timeline, ProjectConfig, TimelineItem } from './types';
+import type { Timeline, ProjectConfig, TimelineItem, LayoutType, HelperAsset } from './types';
 import { createSuperheatPipeline } from './processing/pipeline';
+import { fetchAssetCatalog, getCatalogAvatar } from './processing/assetCatalog';
+import { secondsToFrames } from './utils/timing';
 
-// Avatar video is 7.88 seconds at 25fps = ~197 frames
-// We'll use 30fps for output, so ~236 frames
-const AVATAR_DURATION_FRAMES = 236;
+type VideoProps = z.infer<typeof videoSchema>;
 
 // Simple test timeline with actual avatar
-const createTestTimeline = (): Timeline => {
+const createTestTimeline = (
+  avatarSrc: string,
+  durationFrames: number,
+  layout: LayoutType = 'A',
+  helperAsset?: HelperAsset
+): Timeline => {
   const testItem: TimelineItem = {
     id: 'test-segment-1',
     segmentId: 'seg-1',
     startFrame: 0,
-    endFrame: AVATAR_DURATION_FRAMES,
-    durationFrames: AVATAR_DURATION_FRAMES,
-    layout: 'A', // Full avatar for simple test
+    endFrame: durationFrames,
+    durationFrames,
+    layout,
     avatarClip: {
-      src: staticFile('avatar-part-1.mp4'),
+      src: avatarSrc,
       startFrame: 0,
-      endFrame: AVATAR_DURATION_FRAMES,
+      endFrame: durationFrames,
       originalStartFrame: 0,
-      originalEndFrame: AVATAR_DURATION_FRAMES,
+      originalEndFrame: durationFrames,
       volume: 1,
     },
+    helperAsset,
     caption: {
       words: [
         { text: 'Testing', startFrame: 0, endFrame: 30 },
@@ -44,7 +51,7 @@ const createTestTimeline = (): Timeline => {
   };
 
   return {
-    totalDurationFrames: AVATAR_DURATION_FRAMES,
+    totalDurationFrames: durationFrames,
     items: [testItem],
   };
 };
@@ -57,9 +64,42 @@ const testConfig: ProjectConfig = {
   height: 1920,
 };
 
-// Run the full pipeline to generate a real timeline
-const pipelineResult = createSuperheatPipeline(testConfig);
-const superheatTimeline = pipelineResult.timeline;
+// Replaced by calculateMetadata once the media is probed
+const emptyProps: VideoProps = {
+  timeline: { totalDurationFrames: 0, items: [] },
+  config: testConfig,
+};
+
+/**
+ * Size a test composition to the indexed avatar
+ * The avatar is 25fps - its catalog length is converted to 30fps output frames
+ */
+const calculateTestMetadata =
+  (layout: LayoutType, helperAsset?: HelperAsset): CalculateMetadataFunction<VideoProps> =>
+  async ({ props }) => {
+    const avatar = getCatalogAvatar(await fetchAssetCatalog());
+    const avatarSrc = staticFile(avatar.path);
+    const durationInFrames = secondsToFrames(avatar.durationSeconds, testConfig.fps);
+    return {
+      durationInFrames,
+      props: {
+        ...props,
+        timeline: createTestTimeline(avatarSrc, durationInFrames, layout, helperAsset),
+      },
+    };
+  };
+
+/**
+ * Run the full pipeline on the indexed asset library to generate a real timeline
+ */
+const calculateSuperheatMetadata: CalculateMetadataFunction<VideoProps> = async ({ props }) => {
+  const catalog = await fetchAssetCatalog();
+  const { timeline } = createSuperheatPipeline(testConfig, catalog);
+  return {
+    durationInFrames: timeline.totalDurationFrames,
+    props: { ...props, timeline },
+  };
+};
 
 export const RemotionRoot: React.FC = () => {
   return (
@@ -68,86 +108,108 @@ export const RemotionRoot: React.FC = () => {
       <Composition
         id="SimpleAvatarTest"
         component={Video}
-        durationInFrames={AVATAR_DURATION_FRAMES}
         fps={30}
         width={1080}
         height={1920}
         schema={videoSchema}
-        defaultProps={{
-          timeline: createTestTimeline(),
-          config: testConfig,
-        }}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateTestMetadata('A')}
       />
 
       {/* Layout B Test - Split Screen */}
       <Composition
         id="SplitScreenTest"
         component={Video}
-        durationInFrames={AVATAR_DURATION_FRAMES}
         fps={30}
         width={1080}
         height={1920}
         schema={videoSchema}
-        defaultProps={{
-          timeline: {
-            totalDurationFrames: AVATAR_DURATION_FRAMES,
-            items: [{
-              ...createTestTimeline().items[0],
-              layout: 'B' as const,
-              helperAsset: {
-                type: 'video' as const,
-                src: staticFile('superheat-intro.mp4'),
-                title: 'Superheat Intro',
-                keywords: ['superheat', 'intro', 'product'],
-                fit: 'cover' as const,
-              },
-            }],
-          },
-          config: testConfig,
-        }}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateTestMetadata('B', {
+          type: 'video',
+          src: staticFile('superheat-intro.mp4'),
+          title: 'Superheat Intro',
+          keywords: ['superheat', 'intro', 'product'],
+          fit: 'cover',
+        })}
       />
 
       {/* Layout C Test - Full Helper with PiP */}
       <Composition
         id="FullHelperTest"
         component={Video}
-        durationInFrames={AVATAR_DURATION_FRAMES}
         fps={30}
         width={1080}
         height={1920}
         schema={videoSchema}
-        defaultProps={{
-          timeline: {
-            totalDurationFrames: AVATAR_DURATION_FRAMES,
-            items: [{
-              ...createTestTimeline().items[0],
-              layout: 'C' as const,
-              helperAsset: {
-                type: 'video' as const,
-                src: staticFile('bitcoin-mine.mp4'),
-                title: 'Bitcoin Mining',
-                keywords: ['bitcoin', 'mining', 'heat'],
-                fit: 'cover' as const,
-              },
-            }],
-          },
-          config: testConfig,
-        }}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateTestMetadata('C', {
+          type: 'video',
+          src: staticFile('bitcoin-mine.mp4'),
+          title: 'Bitcoin Mining',
+          keywords: ['bitcoin', 'mining', 'heat'],
+          fit: 'cover',
+        })}
+      />
+
+      {/* Layout D Test - Side by Side */}
+      <Composition
+        id="SideBySideTest"
+        component={Video}
+        fps={30}
+        width={1080}
+        height={1920}
+        schema={videoSchema}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateTestMetadata('D', {
+          type: 'video',
+          src: staticFile('superheat-intro.mp4'),
+          title: 'Superheat Intro',
+          keywords: ['superheat', 'intro', 'product'],
+          fit: 'cover',
+        })}
+      />
+
+      {/* Layout E Test - Avatar over Blurred Helper */}
+      <Composition
+        id="BlurredBackdropTest"
+        component={Video}
+        fps={30}
+        width={1080}
+        height={1920}
+        schema={videoSchema}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateTestMetadata('E', {
+          type: 'video',
+          src: staticFile('bitcoin-mine.mp4'),
+          title: 'Bitcoin Mining',
+          keywords: ['bitcoin', 'mining', 'heat'],
+          fit: 'cover',
+        })}
+      />
+
+      {/* Layout F Test - Text Card */}
+      <Composition
+        id="TextCardTest"
+        component={Video}
+        fps={30}
+        width={1080}
+        height={1920}
+        schema={videoSchema}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateTestMetadata('F')}
       />
 
       {/* Full Pipeline Test - Superheat Reel */}
       <Composition
         id="SuperheatReel"
         component={Video}
-        durationInFrames={superheatTimeline.totalDurationFrames}
         fps={30}
         width={1080}
         height={1920}
         schema={videoSchema}
-        defaultProps={{
-          timeline: superheatTimeline,
-          config: testConfig,
-        }}
+        defaultProps={emptyProps}
+        calculateMetadata={calculateSuperheatMetadata}
       />
     </>
   );
@@ -1,6 +1,14 @@
-import { useVideoConfig, Audio, Sequence, interpolate } from 'remotion';
+import { Fragment } from 'react';
+import { useVideoConfig, Audio, Freeze, Sequence, interpolate } from 'remotion';
 import { z } from 'zod';
-import { LayoutA, LayoutB, LayoutC } from './components/Layouts';
+import { LayoutA, getLayoutComponent } from './components/Layouts';
+import { AvatarAudio } from './components/Avatar';
+import {
+  TransitionIn,
+  TransitionOut,
+  getTransitionFrames,
+  getTransitionOverlapFrames,
+} from './components/Transitions';
 import type { Timeline, TimelineItem, ProjectConfig } from './types';
 
 // Schema for video props
@@ -14,6 +22,13 @@ export const videoSchema = z.object({
 
 type VideoSchemaProps = z.infer<typeof videoSchema>;
 
+// The incoming item already plays the avatar audio during a transition
+const withoutAvatarAudio = (item: TimelineItem): TimelineItem => ({
+  ...item,
+  avatarClip: { ...item.avatarClip, volume: 0 },
+  avatarSubClips: item.avatarSubClips?.map((clip) => ({ ...clip, volume: 0 })),
+});
+
 /**
  * Main Video Composition
  * Renders timeline items with appropriate layouts and transitions
@@ -26,16 +41,8 @@ export const Video: React.FC<VideoSchemaProps> = ({ timeline, config }) => {
   const typedConfig = config as ProjectConfig;
 
   const renderLayout = (item: TimelineItem) => {
-    switch (item.layout) {
-      case 'A':
-        return <LayoutA item={item} />;
-      case 'B':
-        return <LayoutB item={item} />;
-      case 'C':
-        return <LayoutC item={item} />;
-      default:
-        return <LayoutA item={item} />;
-    }
+    const Layout = getLayoutComponent(item.layout) ?? LayoutA;
+    return <Layout item={item} />;
   };
 
   return (
@@ -49,29 +56,58 @@ export const Video: React.FC<VideoSchemaProps> = ({ timeline, config }) => {
       }}
     >
       {/* Render each timeline item as a sequence */}
-      {typedTimeline.items.map((item, index) => (
-        <Sequence
-          key={item.id}
-          from={item.startFrame}
-          durationInFrames={item.durationFrames}
-          name={`Segment ${index + 1} - Layout ${item.layout}`}
-        >
-          {renderLayout(item)}
+      {typedTimeline.items.map((item, index) => {
+        const next = typedTimeline.items[index + 1];
+        const overlapFrames = next ? getTransitionOverlapFrames(next) : 0;
+
+        return (
+          <Fragment key={item.id}>
+            <Sequence
+              from={item.startFrame}
+              durationInFrames={item.durationFrames}
+              name={`Segment ${index + 1} - Layout ${item.layout}`}
+            >
+              <TransitionIn
+                transition={item.transition}
+                durationFrames={getTransitionFrames(item)}
+              >
+                {renderLayout(item)}
+              </TransitionIn>
+
+              {/* Transition SFX */}
+              {item.transition.sfx && (
+                <Audio
+                  src={item.transition.sfx}
+                  volume={(f) =>
+                    interpolate(f, [0, 5], [0, item.transition.sfxVolume], {
+                      extrapolateRight: 'clamp',
+                    })
+                  }
+                  startFrom={0}
+                />
+              )}
+            </Sequence>
+
+            {/* Last frame held muted under the next item while it transitions in */}
+            {next && overlapFrames > 0 && (
+              <Sequence
+                from={next.startFrame}
+                durationInFrames={overlapFrames}
+                name={`Segment ${index + 1} - ${next.transition.type} out`}
+              >
+                <TransitionOut transition={next.transition} durationFrames={overlapFrames}>
+                  <Freeze frame={item.durationFrames - 1}>
+                    {renderLayout(withoutAvatarAudio(item))}
+                  </Freeze>
+                </TransitionOut>
+              </Sequence>
+            )}
+          </Fragment>
+        );
+      })}
 
-          {/* Transition SFX */}
-          {item.transition.sfx && (
-            <Audio
-              src={item.transition.sfx}
-              volume={(f) =>
-                interpolate(f, [0, 5], [0, item.transition.sfxVolume], {
-                  extrapolateRight: 'clamp',
-                })
-              }
-              startFrom={0}
-            />
-          )}
-        </Sequence>
-      ))}
+      {/* Avatar audio running across item edges (crossfades, J/L-cuts) */}
+      <AvatarAudio items={typedTimeline.items} />
 
       {/* Background music (if provided) */}
       {typedConfig.assets.music && (
@@ -0,0 +1,65 @@
+import { Audio, Sequence, interpolate } from 'remotion';
+import type { AvatarClip, TimelineItem } from '../../types';
+
+interface AvatarAudioProps {
+  items: TimelineItem[];
+}
+
+/**
+ * Avatar audio for clips whose audio range differs from their picture
+ * (crossfades at cuts, J-cuts and L-cuts). Rendered on the whole timeline,
+ * outside the item sequences, so the audio can run past an item's edges
+ */
+export const AvatarAudio: React.FC<AvatarAudioProps> = ({ items }) => {
+  const clips = items
+    .flatMap((item) => item.avatarSubClips ?? [item.avatarClip])
+    .filter((clip) => clip.audio && clip.audio.endFrame > clip.audio.startFrame);
+
+  return (
+    <>
+      {clips.map((clip) => (
+        <AvatarClipAudio key={`${clip.audio!.startFrame}-${clip.originalStartFrame}`} clip={clip} />
+      ))}
+    </>
+  );
+};
+
+const AvatarClipAudio: React.FC<{ clip: AvatarClip }> = ({ clip }) => {
+  const audio = clip.audio!;
+  const playbackRate = clip.playbackRate ?? 1;
+  const durationFrames = audio.endFrame - audio.startFrame;
+  const originalStartFrame =
+    clip.originalStartFrame + Math.round((audio.startFrame - clip.startFrame) * playbackRate);
+
+  // Frames are relative to the audio's own sequence
+  const volume = (frame: number) => {
+    const fadeIn =
+      audio.fadeInFrames > 0
+        ? interpolate(frame, [0, audio.fadeInFrames], [0, 1], {
+            extrapolateLeft: 'clamp',
+            extrapolateRight: 'clamp',
+          })
+        : 1;
+    const fadeOut =
+      audio.fadeOutFrames > 0
+        ? interpolate(frame, [durationFrames - audio.fadeOutFrames, durationFrames], [1, 0], {
+            extrapolateLeft: 'clamp',
+            extrapolateRight: 'clamp',
+          })
+        : 1;
+
+    return clip.volume * Math.min(fadeIn, fadeOut);
+  };
+
+  return (
+    <Sequence from={audio.startFrame} durationInFrames={durationFrames} layout="none">
+      <Audio
+        src={clip.src}
+        startFrom={originalStartFrame}
+        endAt={originalStartFrame + Math.round(durationFrames * playbackRate)}
+        playbackRate={playbackRate}
+        volume={volume}
+      />
+    </Sequence>
+  );
+};
@@ -1,29 +1,37 @@
-import { OffthreadVideo, useVideoConfig } from 'remotion';
-import type { AvatarClip } from '../../types';
+import { useVideoConfig } from 'remotion';
+import type { AvatarClip, LayoutRegion } from '../../types';
 import { LAYOUT_CONFIG } from '../../types';
+import { AvatarClipVideo } from './AvatarClipVideo';
 
 interface AvatarBottomProps {
   clip: AvatarClip;
+  subClips?: AvatarClip[]; // Set when silence trimming cut inside the item
+  region?: LayoutRegion;   // Area to fill - layout B's bottom 40% by default
 }
 
-export const AvatarBottom: React.FC<AvatarBottomProps> = ({ clip }) => {
+export const AvatarBottom: React.FC<AvatarBottomProps> = ({
+  clip,
+  subClips,
+  region = LAYOUT_CONFIG.B.avatarRegion,
+}) => {
   const { width, height } = useVideoConfig();
-  const containerHeight = height * LAYOUT_CONFIG.B.avatarHeight; // 40% = 768px
+  const containerWidth = width * region.width;
+  const containerHeight = height * region.height; // 40% = 768px
 
   // Video is 720x1280 (9:16)
   // When scaled to 1080 width -> 1920 height
   // We want to show the TOP of the video (face)
 
-  // Scale video to match full canvas width
-  const scaledVideoHeight = height; // Full 1920px when scaled to 1080 width
+  // Scale video to match the region's width, keeping the canvas aspect
+  const scaledVideoHeight = containerWidth * (height / width); // Full 1920px at 1080 width
 
   return (
     <div
       style={{
         position: 'absolute',
-        bottom: 0,
-        left: 0,
-        width,
+        top: height * region.y,
+        left: width * region.x,
+        width: containerWidth,
         height: containerHeight,
         overflow: 'hidden',
       }}
@@ -34,15 +42,13 @@ export const AvatarBottom: React.FC<AvatarBottomProps> = ({ clip }) => {
           position: 'absolute',
           top: 0,
           left: 0,
-          width,
+          width: containerWidth,
           height: scaledVideoHeight,
         }}
       >
-        <OffthreadVideo
-          src={clip.src}
-          startFrom={clip.originalStartFrame}
-          endAt={clip.originalEndFrame}
-          volume={clip.volume}
+        <AvatarClipVideo
+          clip={clip}
+          subClips={subClips}
           style={{
             width: '100%',
             height: '100%',
@@ -0,0 +1,73 @@
+import { Audio, OffthreadVideo, Sequence } from 'remotion';
+import type { AvatarClip, CropConfig } from '../../types';
+
+interface AvatarClipVideoProps {
+  clip: AvatarClip;
+  subClips?: AvatarClip[];
+  style: React.CSSProperties;
+  audioOnly?: boolean; // Play the voice without the picture
+}
+
+const withCrop = (style: React.CSSProperties, crop?: CropConfig): React.CSSProperties => {
+  if (!crop) return style;
+
+  return {
+    ...style,
+    transform: `scale(${crop.scale})`,
+    transformOrigin: `${(crop.x + crop.width / 2) * 100}% ${(crop.y + crop.height / 2) * 100}%`,
+  };
+};
+
+/**
+ * Avatar video for one timeline item
+ * When silence trimming cut inside the item, plays each sub-clip back to back.
+ * Clips with their own audio range are muted here - AvatarAudio plays them.
+ * Punched-in clips (crop) are zoomed inside the parent's overflow-hidden box
+ */
+export const AvatarClipVideo: React.FC<AvatarClipVideoProps> = ({
+  clip,
+  subClips,
+  style,
+  audioOnly = false,
+}) => {
+  const Media = audioOnly ? Audio : OffthreadVideo;
+
+  if (!subClips || subClips.length <= 1) {
+    return (
+      <Media
+        src={clip.src}
+        startFrom={clip.originalStartFrame}
+        endAt={clip.originalEndFrame}
+        volume={clip.volume}
+        playbackRate={clip.playbackRate}
+        muted={clip.audio !== undefined}
+        style={withCrop(style, clip.crop)}
+      />
+    );
+  }
+
+  return (
+    <>
+      {subClips
+        .filter((subClip) => subClip.endFrame > subClip.startFrame)
+        .map((subClip) => (
+          <Sequence
+            key={subClip.originalStartFrame}
+            from={subClip.startFrame - clip.startFrame}
+            durationInFrames={subClip.endFrame - subClip.startFrame}
+            layout="none"
+          >
+            <Media
+              src={subClip.src}
+              startFrom={subClip.originalStartFrame}
+              endAt={subClip.originalEndFrame}
+              volume={subClip.volume}
+              playbackRate={subClip.playbackRate}
+              muted={subClip.audio !== undefined}
+              style={withCrop(style, subClip.crop)}
+            />
+          </Sequence>
+        ))}
+    </>
+  );
+};
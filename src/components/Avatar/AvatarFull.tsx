@@ -1,29 +1,31 @@
-import { OffthreadVideo, useVideoConfig } from 'remotion';
-import type { AvatarClip } from '../../types';
+import { useVideoConfig } from 'remotion';
+import type { AvatarClip, LayoutRegion } from '../../types';
+import { FULL_CANVAS } from '../../types';
+import { AvatarClipVideo } from './AvatarClipVideo';
 
 interface AvatarFullProps {
   clip: AvatarClip;
+  subClips?: AvatarClip[]; // Set when silence trimming cut inside the item
+  region?: LayoutRegion;   // Area to fill - the whole canvas by default
 }
 
-export const AvatarFull: React.FC<AvatarFullProps> = ({ clip }) => {
+export const AvatarFull: React.FC<AvatarFullProps> = ({ clip, subClips, region = FULL_CANVAS }) => {
   const { width, height } = useVideoConfig();
 
   return (
     <div
       style={{
         position: 'absolute',
-        top: 0,
-        left: 0,
-        width,
-        height,
+        top: height * region.y,
+        left: width * region.x,
+        width: width * region.width,
+        height: height * region.height,
         overflow: 'hidden',
       }}
     >
-      <OffthreadVideo
-        src={clip.src}
-        startFrom={clip.originalStartFrame}
-        endAt={clip.originalEndFrame}
-        volume={clip.volume}
+      <AvatarClipVideo
+        clip={clip}
+        subClips={subClips}
         style={{
           width: '100%',
           height: '100%',
@@ -1,25 +1,34 @@
-import { OffthreadVideo, useVideoConfig } from 'remotion';
-import type { AvatarClip } from '../../types';
+import { useVideoConfig } from 'remotion';
+import type { AvatarClip, LayoutRegion } from '../../types';
+import { AvatarClipVideo } from './AvatarClipVideo';
 
 interface AvatarPiPProps {
   clip: AvatarClip;
+  subClips?: AvatarClip[]; // Set when silence trimming cut inside the item
   position?: 'bottom-left' | 'bottom-right' | 'top-left' | 'top-right';
   size?: number; // percentage of width
+  region?: LayoutRegion; // Exact area - overrides position and size
 }
 
 export const AvatarPiP: React.FC<AvatarPiPProps> = ({
   clip,
+  subClips,
   position = 'bottom-right',
   size = 0.25,
+  region,
 }) => {
-  const { width } = useVideoConfig();
+  const { width, height } = useVideoConfig();
 
-  const pipWidth = width * size;
-  const pipHeight = pipWidth * (16 / 9); // Maintain aspect ratio
+  const pipWidth = width * (region?.width ?? size);
+  const pipHeight = region ? height * region.height : pipWidth * (16 / 9); // Maintain aspect ratio
   const margin = 40;
   const borderRadius = 20;
 
   const getPosition = () => {
+    if (region) {
+      return { top: height * region.y, left: width * region.x };
+    }
+
     switch (position) {
       case 'bottom-left':
         return { bottom: margin, left: margin };
@@ -47,11 +56,9 @@ export const AvatarPiP: React.FC<AvatarPiPProps> = ({
         border: '3px solid rgba(255,255,255,0.2)',
       }}
     >
-      <OffthreadVideo
-        src={clip.src}
-        startFrom={clip.originalStartFrame}
-        endAt={clip.originalEndFrame}
-        volume={clip.volume}
+      <AvatarClipVideo
+        clip={clip}
+        subClips={subClips}
         style={{
           width: '100%',
           height: '100%',
@@ -1,3 +1,5 @@
 export { AvatarFull } from './AvatarFull';
 export { AvatarBottom } from './AvatarBottom';
 export { AvatarPiP } from './AvatarPiP';
+export { AvatarClipVideo } from './AvatarClipVideo';
+export { AvatarAudio } from './AvatarAudio';
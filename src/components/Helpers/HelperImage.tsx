@@ -4,15 +4,18 @@ import type { HelperAsset } from '../../types';
 interface HelperImageProps {
   asset: HelperAsset;
   height: number;
+  width?: number; // Defaults to the canvas width
   animate?: boolean;
 }
 
 export const HelperImage: React.FC<HelperImageProps> = ({
   asset,
   height,
+  width: frameWidth,
   animate = true,
 }) => {
-  const { width } = useVideoConfig();
+  const { width: canvasWidth } = useVideoConfig();
+  const width = frameWidth ?? canvasWidth;
   const frame = useCurrentFrame();
 
   if (asset.type !== 'image') return null;
@@ -1,39 +1,87 @@
-import { OffthreadVideo, useVideoConfig } from 'remotion';
+import { Freeze, Loop, OffthreadVideo, Sequence, useVideoConfig } from 'remotion';
 import type { HelperAsset } from '../../types';
+import { convertFrame } from '../../utils/timing';
 
 interface HelperVideoProps {
   asset: HelperAsset;
   height: number;
+  width?: number; // Defaults to the canvas width
 }
 
-export const HelperVideo: React.FC<HelperVideoProps> = ({ asset, height }) => {
-  const { width } = useVideoConfig();
+export const HelperVideo: React.FC<HelperVideoProps> = ({ asset, height, width: frameWidth }) => {
+  const { fps, width: canvasWidth } = useVideoConfig();
+  const width = frameWidth ?? canvasWidth;
 
   if (asset.type !== 'video') return null;
 
-  return (
-    <div
+  // The asset's range is in the file's own frames, Remotion's startFrom in output frames
+  const sourceFps = asset.sourceFps ?? fps;
+  const startFrom =
+    asset.startFrame === undefined ? undefined : convertFrame(asset.startFrame, sourceFps, fps);
+
+  const video = (
+    <OffthreadVideo
+      src={asset.src}
+      startFrom={startFrom}
+      playbackRate={asset.playbackRate}
+      volume={0} // Helper videos are muted, avatar audio plays
       style={{
-        position: 'absolute',
-        top: 0,
-        left: 0,
-        width,
-        height,
-        overflow: 'hidden',
-        backgroundColor: '#000',
+        width: '100%',
+        height: '100%',
+        objectFit: asset.fit,
       }}
-    >
-      <OffthreadVideo
-        src={asset.src}
-        startFrom={asset.startFrame}
-        endAt={asset.endFrame}
-        volume={0} // Helper videos are muted, avatar audio plays
-        style={{
-          width: '100%',
-          height: '100%',
-          objectFit: asset.fit,
-        }}
-      />
-    </div>
+    />
   );
+
+  if (asset.endFrame === undefined) {
+    return <HelperFrame width={width} height={height}>{video}</HelperFrame>;
+  }
+
+  // Output frames the range lasts - endAt would ignore the playback rate
+  const rangeFrames = ((asset.endFrame - (asset.startFrame ?? 0)) * fps) / sourceFps;
+  const playedFrames = Math.max(1, Math.floor(rangeFrames / (asset.playbackRate ?? 1)));
+
+  let content = (
+    <Sequence durationInFrames={playedFrames} layout="none">
+      {video}
+    </Sequence>
+  );
+  if (asset.fill === 'loop') {
+    content = (
+      <Loop durationInFrames={playedFrames} layout="none">
+        {video}
+      </Loop>
+    );
+  } else if (asset.fill === 'freeze') {
+    content = (
+      <>
+        {content}
+        <Sequence from={playedFrames} layout="none">
+          <Freeze frame={playedFrames - 1}>{video}</Freeze>
+        </Sequence>
+      </>
+    );
+  }
+
+  return <HelperFrame width={width} height={height}>{content}</HelperFrame>;
 };
+
+const HelperFrame: React.FC<{ width: number; height: number; children: React.ReactNode }> = ({
+  width,
+  height,
+  children,
+}) => (
+  <div
+    style={{
+      position: 'absolute',
+      top: 0,
+      left: 0,
+      width,
+      height,
+      overflow: 'hidden',
+      backgroundColor: '#000',
+    }}
+  >
+    {children}
+  </div>
+);
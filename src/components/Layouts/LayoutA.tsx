@@ -3,6 +3,7 @@ import { AvatarFull } from '../Avatar';
 import { Captions } from '../Text';
 import { DynamicText } from '../Text';
 import type { TimelineItem } from '../../types';
+import { getLayoutGeometry } from './geometry';
 
 interface LayoutAProps {
   item: TimelineItem;
@@ -18,6 +19,7 @@ interface LayoutAProps {
  */
 export const LayoutA: React.FC<LayoutAProps> = ({ item, viralCaptions = false }) => {
   const { width, height } = useVideoConfig();
+  const { avatarRegion, captionPlacement } = getLayoutGeometry(item.layout, 'A');
 
   return (
     <div
@@ -29,7 +31,7 @@ export const LayoutA: React.FC<LayoutAProps> = ({ item, viralCaptions = false })
       }}
     >
       {/* Full screen avatar */}
-      <AvatarFull clip={item.avatarClip} />
+      <AvatarFull clip={item.avatarClip} subClips={item.avatarSubClips} region={avatarRegion} />
 
       {/* Gradient overlay for caption readability */}
       <div
@@ -45,7 +47,13 @@ export const LayoutA: React.FC<LayoutAProps> = ({ item, viralCaptions = false })
       />
 
       {/* Captions */}
-      {item.caption && <Captions data={item.caption} singleWordMode={viralCaptions} />}
+      {item.caption && (
+        <Captions
+          data={item.caption}
+          singleWordMode={viralCaptions}
+          placement={captionPlacement}
+        />
+      )}
 
       {/* Dynamic text overlay (for key phrases without visuals) */}
       {item.textOverlay && <DynamicText overlay={item.textOverlay} />}
@@ -4,7 +4,7 @@ import { HelperVideo, HelperImage } from '../Helpers';
 import { Captions } from '../Text';
 import { DynamicText } from '../Text';
 import type { TimelineItem } from '../../types';
-import { LAYOUT_CONFIG } from '../../types';
+import { getLayoutGeometry, getRegionStyle } from './geometry';
 
 interface LayoutBProps {
   item: TimelineItem;
@@ -19,8 +19,9 @@ interface LayoutBProps {
 export const LayoutB: React.FC<LayoutBProps> = ({ item }) => {
   const { width, height } = useVideoConfig();
 
-  const helperHeight = height * LAYOUT_CONFIG.B.helperHeight;
-  const avatarHeight = height * LAYOUT_CONFIG.B.avatarHeight;
+  const { avatarRegion, helperRegion, captionPlacement } = getLayoutGeometry(item.layout, 'B');
+  const helperHeight = height * helperRegion.height;
+  const avatarHeight = height * avatarRegion.height;
 
   return (
     <div
@@ -34,11 +35,7 @@ export const LayoutB: React.FC<LayoutBProps> = ({ item }) => {
       {/* Top section: Helper content */}
       <div
         style={{
-          position: 'absolute',
-          top: 0,
-          left: 0,
-          width,
-          height: helperHeight,
+          ...getRegionStyle(helperRegion, width, height),
           overflow: 'hidden',
         }}
       >
@@ -59,7 +56,7 @@ export const LayoutB: React.FC<LayoutBProps> = ({ item }) => {
       <div
         style={{
           position: 'absolute',
-          top: helperHeight - 2,
+          top: height * (helperRegion.y + helperRegion.height) - 2,
           left: 0,
           width,
           height: 4,
@@ -68,7 +65,7 @@ export const LayoutB: React.FC<LayoutBProps> = ({ item }) => {
       />
 
       {/* Bottom section: Avatar */}
-      <AvatarBottom clip={item.avatarClip} />
+      <AvatarBottom clip={item.avatarClip} subClips={item.avatarSubClips} region={avatarRegion} />
 
       {/* Captions positioned in avatar area */}
       {item.caption && (
@@ -80,13 +77,7 @@ export const LayoutB: React.FC<LayoutBProps> = ({ item }) => {
             right: 0,
           }}
         >
-          <Captions data={{
-            ...item.caption,
-            style: {
-              ...item.caption.style,
-              position: 'bottom',
-            }
-          }} />
+          <Captions data={item.caption} placement={captionPlacement} />
         </div>
       )}
     </div>
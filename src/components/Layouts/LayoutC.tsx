@@ -3,12 +3,11 @@ import { AvatarPiP } from '../Avatar';
 import { HelperVideo, HelperImage } from '../Helpers';
 import { Captions } from '../Text';
 import type { TimelineItem } from '../../types';
+import { getLayoutGeometry, getRegionStyle } from './geometry';
 
 interface LayoutCProps {
   item: TimelineItem;
   showPiP?: boolean;
-  pipPosition?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
-  pipSize?: number;
 }
 
 /**
@@ -18,13 +17,11 @@ interface LayoutCProps {
  * - Captions overlaid at bottom
  * - Avatar audio continues as voiceover
  */
-export const LayoutC: React.FC<LayoutCProps> = ({
-  item,
-  showPiP = true,
-  pipPosition = 'bottom-left',
-  pipSize = 0.25,
-}) => {
+export const LayoutC: React.FC<LayoutCProps> = ({ item, showPiP = true }) => {
   const { width, height } = useVideoConfig();
+  const { avatarRegion, helperRegion, captionPlacement } = getLayoutGeometry(item.layout, 'C');
+  const helperWidth = width * helperRegion.width;
+  const helperHeight = height * helperRegion.height;
 
   return (
     <div
@@ -36,12 +33,14 @@ export const LayoutC: React.FC<LayoutCProps> = ({
       }}
     >
       {/* Full screen helper content */}
-      {item.helperAsset?.type === 'video' && (
-        <HelperVideo asset={item.helperAsset} height={height} />
-      )}
-      {item.helperAsset?.type === 'image' && (
-        <HelperImage asset={item.helperAsset} height={height} />
-      )}
+      <div style={{ ...getRegionStyle(helperRegion, width, height), overflow: 'hidden' }}>
+        {item.helperAsset?.type === 'video' && (
+          <HelperVideo asset={item.helperAsset} width={helperWidth} height={helperHeight} />
+        )}
+        {item.helperAsset?.type === 'image' && (
+          <HelperImage asset={item.helperAsset} width={helperWidth} height={helperHeight} />
+        )}
+      </div>
 
       {/* Gradient overlay for better caption readability */}
       <div
@@ -60,13 +59,13 @@ export const LayoutC: React.FC<LayoutCProps> = ({
       {showPiP && (
         <AvatarPiP
           clip={item.avatarClip}
-          position={pipPosition}
-          size={pipSize}
+          subClips={item.avatarSubClips}
+          region={avatarRegion}
         />
       )}
 
       {/* Captions at bottom */}
-      {item.caption && <Captions data={item.caption} />}
+      {item.caption && <Captions data={item.caption} placement={captionPlacement} />}
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import { useVideoConfig } from 'remotion';
+import { AvatarClipVideo } from '../Avatar';
+import { HelperVideo, HelperImage } from '../Helpers';
+import { Captions } from '../Text';
+import type { TimelineItem } from '../../types';
+import { getLayoutGeometry, getRegionStyle } from './geometry';
+
+interface LayoutDProps {
+  item: TimelineItem;
+}
+
+/**
+ * Layout D: Side by Side
+ * - Avatar in the left half (center crop)
+ * - Helper content in the right half
+ * - Captions across both at the bottom
+ */
+export const LayoutD: React.FC<LayoutDProps> = ({ item }) => {
+  const { width, height } = useVideoConfig();
+
+  const { avatarRegion, helperRegion, captionPlacement } = getLayoutGeometry(item.layout, 'D');
+  const helperWidth = width * helperRegion.width;
+  const helperHeight = height * helperRegion.height;
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        width,
+        height,
+        backgroundColor: '#000',
+      }}
+    >
+      {/* Left half: Avatar */}
+      <div style={{ ...getRegionStyle(avatarRegion, width, height), overflow: 'hidden' }}>
+        <AvatarClipVideo
+          clip={item.avatarClip}
+          subClips={item.avatarSubClips}
+          style={{
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover',
+          }}
+        />
+      </div>
+
+      {/* Right half: Helper content */}
+      <div style={{ ...getRegionStyle(helperRegion, width, height), overflow: 'hidden' }}>
+        {item.helperAsset?.type === 'video' && (
+          <HelperVideo asset={item.helperAsset} width={helperWidth} height={helperHeight} />
+        )}
+        {item.helperAsset?.type === 'image' && (
+          <HelperImage asset={item.helperAsset} width={helperWidth} height={helperHeight} />
+        )}
+      </div>
+
+      {/* Divider line */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 0,
+          left: width * helperRegion.x - 2,
+          width: 4,
+          height,
+          background: 'linear-gradient(180deg, transparent, rgba(255,255,255,0.3), transparent)',
+        }}
+      />
+
+      {/* Gradient overlay for caption readability */}
+      <div
+        style={{
+          position: 'absolute',
+          bottom: 0,
+          left: 0,
+          right: 0,
+          height: height * 0.35,
+          background: 'linear-gradient(to top, rgba(0,0,0,0.8) 0%, rgba(0,0,0,0.4) 60%, transparent 100%)',
+          pointerEvents: 'none',
+        }}
+      />
+
+      {/* Captions at bottom */}
+      {item.caption && <Captions data={item.caption} placement={captionPlacement} />}
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import { useVideoConfig } from 'remotion';
+import { AvatarClipVideo } from '../Avatar';
+import { HelperVideo, HelperImage } from '../Helpers';
+import { Captions } from '../Text';
+import type { TimelineItem } from '../../types';
+import { getLayoutGeometry, getRegionStyle } from './geometry';
+
+interface LayoutEProps {
+  item: TimelineItem;
+  blur?: number;          // Backdrop blur in px
+  backdropScale?: number; // Zoom that pushes the blurred edges off canvas
+}
+
+/**
+ * Layout E: Blurred Backdrop
+ * - Helper content scaled up and blurred as the background
+ * - Avatar as a rounded card in the middle
+ * - Captions overlaid at bottom
+ */
+export const LayoutE: React.FC<LayoutEProps> = ({ item, blur = 40, backdropScale = 1.2 }) => {
+  const { width, height } = useVideoConfig();
+
+  const { avatarRegion, helperRegion, captionPlacement } = getLayoutGeometry(item.layout, 'E');
+  const backdropHeight = height * helperRegion.height;
+  const borderRadius = 32;
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        width,
+        height,
+        backgroundColor: '#000',
+        overflow: 'hidden',
+      }}
+    >
+      {/* Blurred, scaled helper backdrop */}
+      <div
+        style={{
+          ...getRegionStyle(helperRegion, width, height),
+          filter: `blur(${blur}px) brightness(0.6)`,
+          transform: `scale(${backdropScale})`,
+        }}
+      >
+        {item.helperAsset?.type === 'video' && (
+          <HelperVideo asset={{ ...item.helperAsset, fit: 'cover' }} height={backdropHeight} />
+        )}
+        {item.helperAsset?.type === 'image' && (
+          <HelperImage asset={{ ...item.helperAsset, fit: 'cover' }} height={backdropHeight} />
+        )}
+      </div>
+
+      {/* Avatar card - 9:16 on a 9:16 canvas */}
+      <div
+        style={{
+          ...getRegionStyle(avatarRegion, width, height),
+          borderRadius,
+          overflow: 'hidden',
+          boxShadow: '0 12px 48px rgba(0,0,0,0.6)',
+        }}
+      >
+        <AvatarClipVideo
+          clip={item.avatarClip}
+          subClips={item.avatarSubClips}
+          style={{
+            width: '100%',
+            height: '100%',
+            objectFit: 'cover',
+          }}
+        />
+      </div>
+
+      {/* Captions at bottom */}
+      {item.caption && <Captions data={item.caption} placement={captionPlacement} />}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+import { useVideoConfig } from 'remotion';
+import { AvatarClipVideo } from '../Avatar';
+import { TextCard } from '../Text';
+import type { TimelineItem } from '../../types';
+
+interface LayoutFProps {
+  item: TimelineItem;
+}
+
+/**
+ * Layout F: Text Card
+ * - Spoken words animate in full screen, for punchlines
+ * - No picture - only the avatar audio plays
+ */
+export const LayoutF: React.FC<LayoutFProps> = ({ item }) => {
+  const { width, height } = useVideoConfig();
+
+  return (
+    <div
+      style={{
+        position: 'relative',
+        width,
+        height,
+        backgroundColor: '#000',
+      }}
+    >
+      <AvatarClipVideo
+        clip={item.avatarClip}
+        subClips={item.avatarSubClips}
+        style={{}}
+        audioOnly
+      />
+
+      <TextCard data={item.caption} fallbackText={item.textOverlay?.primary} />
+    </div>
+  );
+};
@@ -0,0 +1,29 @@
+import type { BuiltInLayoutType, LayoutConfig, LayoutRegion, LayoutType } from '../../types';
+import { LAYOUT_CONFIG } from '../../types';
+import { getLayout } from '../../processing/layoutRegistry';
+
+/**
+ * Regions and caption placement registered for an item's layout
+ * Fields it leaves out come from the built-in layout the component implements,
+ * so a custom layout can reuse a built-in component with its own geometry
+ */
+export const getLayoutGeometry = <T extends BuiltInLayoutType>(
+  id: LayoutType,
+  builtIn: T
+): LayoutConfig & (typeof LAYOUT_CONFIG)[T] =>
+  ({ ...LAYOUT_CONFIG[builtIn], ...getLayout(id) }) as LayoutConfig & (typeof LAYOUT_CONFIG)[T];
+
+/**
+ * Absolute position of a region on a canvas
+ */
+export const getRegionStyle = (
+  region: LayoutRegion,
+  width: number,
+  height: number
+): React.CSSProperties => ({
+  position: 'absolute',
+  left: width * region.x,
+  top: height * region.y,
+  width: width * region.width,
+  height: height * region.height,
+});
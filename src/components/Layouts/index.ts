@@ -1,3 +1,8 @@
 export { LayoutA } from './LayoutA';
 export { LayoutB } from './LayoutB';
 export { LayoutC } from './LayoutC';
+export { LayoutD } from './LayoutD';
+export { LayoutE } from './LayoutE';
+export { LayoutF } from './LayoutF';
+export * from './registry';
+export * from './geometry';
@@ -0,0 +1,50 @@
+// ============================================
+// Layout Components
+// Maps registered layout ids to the components that render them -
+// the layout metadata lives in processing/layoutRegistry.ts
+// ============================================
+
+import type { BuiltInLayoutType, LayoutType, TimelineItem } from '../../types';
+import { getLayout } from '../../processing/layoutRegistry';
+import { LayoutA } from './LayoutA';
+import { LayoutB } from './LayoutB';
+import { LayoutC } from './LayoutC';
+import { LayoutD } from './LayoutD';
+import { LayoutE } from './LayoutE';
+import { LayoutF } from './LayoutF';
+
+export interface LayoutProps {
+  item: TimelineItem;
+}
+
+const components = new Map<string, React.FC<LayoutProps>>(
+  Object.entries({
+    A: LayoutA,
+    B: LayoutB,
+    C: LayoutC,
+    D: LayoutD,
+    E: LayoutE,
+    F: LayoutF,
+  } satisfies Record<BuiltInLayoutType, React.FC<LayoutProps>>)
+);
+
+/**
+ * Render a registered layout with a component
+ * Throws if the layout isn't registered, or already has a component unless replace is set
+ */
+export const registerLayoutComponent = (
+  id: LayoutType,
+  component: React.FC<LayoutProps>,
+  options: { replace?: boolean } = {}
+): void => {
+  if (!getLayout(id)) {
+    throw new Error(`Layout "${id}" is not registered - call registerLayout first`);
+  }
+  if (components.has(id) && !options.replace) {
+    throw new Error(`Layout "${id}" already has a component - pass { replace: true }`);
+  }
+  components.set(id, component);
+};
+
+export const getLayoutComponent = (id: LayoutType): React.FC<LayoutProps> | undefined =>
+  components.get(id);
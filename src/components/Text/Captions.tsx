@@ -1,16 +1,19 @@
 import { useVideoConfig, useCurrentFrame, interpolate, spring } from 'remotion';
-import type { CaptionData } from '../../types';
+import type { CaptionData, CaptionPlacement } from '../../types';
 
 interface CaptionsProps {
   data: CaptionData;
   /** Show only active word (true) or window of words (false) */
   singleWordMode?: boolean;
+  /** The layout's caption placement - overrides the style's position, 'none' hides them */
+  placement?: CaptionPlacement;
 }
 
-export const Captions: React.FC<CaptionsProps> = ({ data, singleWordMode = false }) => {
+export const Captions: React.FC<CaptionsProps> = ({ data, singleWordMode = false, placement }) => {
   const { height, fps } = useVideoConfig();
   const frame = useCurrentFrame();
   const { words, style } = data;
+  const position = placement ?? style.position;
 
   // Find current word
   const currentWordIndex = words.findIndex(
@@ -27,7 +30,7 @@ export const Captions: React.FC<CaptionsProps> = ({ data, singleWordMode = false
   const visibleWords = words.slice(startIndex, endIndex);
 
   const getPositionY = () => {
-    switch (style.position) {
+    switch (position) {
       case 'top':
         return height * 0.15;
       case 'center':
@@ -38,7 +41,7 @@ export const Captions: React.FC<CaptionsProps> = ({ data, singleWordMode = false
     }
   };
 
-  if (currentWordIndex === -1 || visibleWords.length === 0) {
+  if (position === 'none' || currentWordIndex === -1 || visibleWords.length === 0) {
     return null;
   }
 
@@ -133,10 +136,11 @@ export const Captions: React.FC<CaptionsProps> = ({ data, singleWordMode = false
 /**
  * Karaoke-style captions that show full sentence with word highlighting
  */
-export const KaraokeCaptions: React.FC<CaptionsProps> = ({ data }) => {
+export const KaraokeCaptions: React.FC<CaptionsProps> = ({ data, placement }) => {
   const { height, fps } = useVideoConfig();
   const frame = useCurrentFrame();
   const { words, style } = data;
+  const position = placement ?? style.position;
 
   // Group words into lines (roughly 5-6 words per line)
   const wordsPerLine = 5;
@@ -153,7 +157,7 @@ export const KaraokeCaptions: React.FC<CaptionsProps> = ({ data }) => {
   const currentLine = lines[currentLineIndex] || [];
 
   const getPositionY = () => {
-    switch (style.position) {
+    switch (position) {
       case 'top':
         return height * 0.15;
       case 'center':
@@ -164,7 +168,7 @@ export const KaraokeCaptions: React.FC<CaptionsProps> = ({ data }) => {
     }
   };
 
-  if (currentLine.length === 0) {
+  if (position === 'none' || currentLine.length === 0) {
     return null;
   }
 
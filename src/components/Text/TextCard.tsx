@@ -0,0 +1,94 @@
+import { useVideoConfig, useCurrentFrame, interpolate, spring } from 'remotion';
+import type { CaptionData } from '../../types';
+
+interface TextCardProps {
+  data: CaptionData;
+  fallbackText?: string; // Shown whole when there are no timed words
+  background?: string;
+}
+
+/**
+ * Full-screen kinetic text card
+ * Each word slams in as it is spoken and stays, the newest one highlighted
+ */
+export const TextCard: React.FC<TextCardProps> = ({
+  data,
+  fallbackText,
+  background = 'radial-gradient(circle at 50% 40%, #2a2a2a 0%, #000 75%)',
+}) => {
+  const { width, height, fps } = useVideoConfig();
+  const frame = useCurrentFrame();
+  const { style } = data;
+
+  const words =
+    data.words.length > 0
+      ? data.words
+      : (fallbackText ?? '').split(/\s+/).filter(Boolean).map((text) => ({
+          text,
+          startFrame: 0,
+          endFrame: 0,
+        }));
+
+  // Last word already spoken
+  const currentWordIndex = words.reduce(
+    (current, word, index) => (frame >= word.startFrame ? index : current),
+    -1
+  );
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        width,
+        height,
+        background,
+        display: 'flex',
+        flexWrap: 'wrap',
+        alignContent: 'center',
+        justifyContent: 'center',
+        gap: '12px 24px',
+        padding: '0 80px',
+        boxSizing: 'border-box',
+      }}
+    >
+      {words.map((word, index) => {
+        if (index > currentWordIndex) return null;
+
+        const progress = spring({
+          frame: frame - word.startFrame,
+          fps,
+          config: {
+            damping: 14,
+            stiffness: 220,
+            mass: 0.6,
+          },
+        });
+        const isCurrent = index === currentWordIndex && data.words.length > 0;
+        const y = interpolate(progress, [0, 1], [40, 0]);
+        const scale = interpolate(progress, [0, 1], [1.6, 1]);
+
+        return (
+          <span
+            key={`${word.text}-${index}`}
+            style={{
+              fontFamily: style.font.family,
+              fontSize: style.font.size * 2.2,
+              fontWeight: 900,
+              lineHeight: 1.1,
+              color: isCurrent ? style.highlightColor : style.font.color,
+              textShadow: style.font.shadow,
+              textTransform: 'uppercase',
+              display: 'inline-block',
+              opacity: progress,
+              transform: `translateY(${y}px) scale(${scale})`,
+            }}
+          >
+            {word.text}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
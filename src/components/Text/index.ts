@@ -1,3 +1,4 @@
 export { Captions, KaraokeCaptions } from './Captions';
 export { DynamicText } from './DynamicText';
+export { TextCard } from './TextCard';
 export * from './TextStyles';
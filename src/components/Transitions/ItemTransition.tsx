@@ -0,0 +1,131 @@
+import type { TimelineItem, TransitionConfig, TransitionType } from '../../types';
+import { FadeTransition } from './FadeTransition';
+import { SlideTransition } from './SlideTransition';
+import { ZoomTransition } from './ZoomTransition';
+import { WipeTransition } from './WipeTransition';
+import { FlashTransition } from './FlashTransition';
+
+// Transitions that show the outgoing item while the incoming one animates in
+const OVERLAPPING_TRANSITIONS: TransitionType[] = [
+  'fade',
+  'slide-left',
+  'slide-right',
+  'zoom',
+  'wipe-left',
+  'wipe-right',
+];
+
+/**
+ * Frames the transition into an item takes, capped at the item's length
+ * 0 for cuts
+ */
+export const getTransitionFrames = (item: TimelineItem): number => {
+  const { type, durationFrames } = item.transition;
+  if (type === 'cut' || type === 'none') return 0;
+  return Math.max(0, Math.min(durationFrames, item.durationFrames));
+};
+
+/**
+ * Frames the previous item stays on screen under this one
+ * Flashes cover the change themselves, so only the incoming item is needed
+ */
+export const getTransitionOverlapFrames = (item: TimelineItem): number =>
+  OVERLAPPING_TRANSITIONS.includes(item.transition.type) ? getTransitionFrames(item) : 0;
+
+interface TransitionSideProps {
+  transition: TransitionConfig;
+  durationFrames: number;
+  children: React.ReactNode;
+}
+
+/**
+ * Incoming side - animates an item in over its first durationFrames
+ */
+export const TransitionIn: React.FC<TransitionSideProps> = ({
+  transition,
+  durationFrames,
+  children,
+}) => {
+  if (durationFrames <= 0) return <>{children}</>;
+
+  switch (transition.type) {
+    case 'fade':
+      return (
+        <FadeTransition startFrame={0} durationFrames={durationFrames} direction="in">
+          {children}
+        </FadeTransition>
+      );
+    case 'slide-left':
+    case 'slide-right':
+      return (
+        <SlideTransition
+          startFrame={0}
+          durationFrames={durationFrames}
+          direction={transition.type === 'slide-left' ? 'left' : 'right'}
+          type="in"
+        >
+          {children}
+        </SlideTransition>
+      );
+    case 'zoom':
+      return (
+        <ZoomTransition startFrame={0} durationFrames={durationFrames} type="in">
+          {children}
+        </ZoomTransition>
+      );
+    case 'wipe-left':
+    case 'wipe-right':
+      return (
+        <WipeTransition
+          startFrame={0}
+          durationFrames={durationFrames}
+          direction={transition.type === 'wipe-left' ? 'left' : 'right'}
+          type="in"
+        >
+          {children}
+        </WipeTransition>
+      );
+    case 'flash':
+      return (
+        <FlashTransition startFrame={0} durationFrames={durationFrames}>
+          {children}
+        </FlashTransition>
+      );
+    default:
+      return <>{children}</>;
+  }
+};
+
+/**
+ * Outgoing side - animates the previous item out under the incoming one
+ * Slides push it off the other edge and zooms blow it up; fades and wipes
+ * leave it in place for the incoming item to cover
+ */
+export const TransitionOut: React.FC<TransitionSideProps> = ({
+  transition,
+  durationFrames,
+  children,
+}) => {
+  switch (transition.type) {
+    case 'slide-left':
+    case 'slide-right':
+      return (
+        <SlideTransition
+          startFrame={0}
+          durationFrames={durationFrames}
+          direction={transition.type === 'slide-left' ? 'right' : 'left'}
+          type="out"
+        >
+          {children}
+        </SlideTransition>
+      );
+    case 'zoom':
+      return (
+        <ZoomTransition startFrame={0} durationFrames={durationFrames} type="out">
+          {children}
+        </ZoomTransition>
+      );
+    default:
+      return <>{children}</>;
+  }
+};
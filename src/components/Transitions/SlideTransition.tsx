@@ -20,14 +20,19 @@ export const SlideTransition: React.FC<SlideTransitionProps> = ({
 
   const relativeFrame = frame - startFrame;
 
-  const progress = spring({
-    frame: relativeFrame,
-    fps,
-    config: {
-      damping: 20,
-      stiffness: 80,
-    },
-  });
+  // Stretched to end exactly at durationFrames
+  const progress =
+    relativeFrame >= durationFrames
+      ? 1
+      : spring({
+          frame: relativeFrame,
+          fps,
+          durationInFrames: durationFrames,
+          config: {
+            damping: 20,
+            stiffness: 80,
+          },
+        });
 
   const getTransform = () => {
     const isEntering = type === 'in';
@@ -52,9 +57,9 @@ export const SlideTransition: React.FC<SlideTransitionProps> = ({
     return type === 'in' ? null : <>{children}</>;
   }
 
-  // After transition complete
-  if (frame > startFrame + durationFrames) {
-    return type === 'in' ? <>{children}</> : null;
+  // After transition complete - incoming content keeps the wrapper to avoid a remount
+  if (frame > startFrame + durationFrames && type === 'out') {
+    return null;
   }
 
   return (
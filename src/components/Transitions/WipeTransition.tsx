@@ -23,14 +23,19 @@ export const WipeTransition: React.FC<WipeTransitionProps> = ({
 
   const relativeFrame = frame - startFrame;
 
-  const progress = spring({
-    frame: relativeFrame,
-    fps,
-    config: {
-      damping: 25,
-      stiffness: 120,
-    },
-  });
+  // Stretched to end exactly at durationFrames
+  const progress =
+    relativeFrame >= durationFrames
+      ? 1
+      : spring({
+          frame: relativeFrame,
+          fps,
+          durationInFrames: durationFrames,
+          config: {
+            damping: 25,
+            stiffness: 120,
+          },
+        });
 
   const isEntering = type === 'in';
   const effectiveProgress = isEntering ? progress : 1 - progress;
@@ -56,9 +61,9 @@ export const WipeTransition: React.FC<WipeTransitionProps> = ({
     return type === 'in' ? null : <>{children}</>;
   }
 
-  // After transition complete
-  if (frame > startFrame + durationFrames) {
-    return type === 'in' ? <>{children}</> : null;
+  // After transition complete - incoming content keeps the wrapper to avoid a remount
+  if (frame > startFrame + durationFrames && type === 'out') {
+    return null;
   }
 
   return (
@@ -18,14 +18,19 @@ export const ZoomTransition: React.FC<ZoomTransitionProps> = ({
 
   const relativeFrame = frame - startFrame;
 
-  const progress = spring({
-    frame: relativeFrame,
-    fps,
-    config: {
-      damping: 15,
-      stiffness: 100,
-    },
-  });
+  // Stretched to end exactly at durationFrames
+  const progress =
+    relativeFrame >= durationFrames
+      ? 1
+      : spring({
+          frame: relativeFrame,
+          fps,
+          durationInFrames: durationFrames,
+          config: {
+            damping: 15,
+            stiffness: 100,
+          },
+        });
 
   const isEntering = type === 'in';
 
@@ -43,9 +48,9 @@ export const ZoomTransition: React.FC<ZoomTransitionProps> = ({
     return type === 'in' ? null : <>{children}</>;
   }
 
-  // After transition complete
-  if (frame > startFrame + durationFrames) {
-    return type === 'in' ? <>{children}</> : null;
+  // After transition complete - incoming content keeps the wrapper to avoid a remount
+  if (frame > startFrame + durationFrames && type === 'out') {
+    return null;
   }
 
   return (
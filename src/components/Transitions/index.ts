@@ -3,3 +3,5 @@ export { SlideTransition } from './SlideTransition';
 export { ZoomTransition } from './ZoomTransition';
 export { WipeTransition } from './WipeTransition';
 export { FlashTransition } from './FlashTransition';
+export { TransitionIn, TransitionOut } from './ItemTransition';
+export { getTransitionFrames, getTransitionOverlapFrames } from './ItemTransition';
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { assignAssetsOptimally, type AssignmentOptions } from './assetAssignment';
+
+const NO_BONUSES: AssignmentOptions = {
+  maxAssetsPerSegment: 1,
+  maxUsesPerAsset: 1,
+  firstUseBonus: 0,
+  reusePenalty: 0,
+  adjacentReusePenalty: 0,
+};
+
+// [segmentIndex, assetIndex, score]
+const candidates = (...entries: [number, number, number][]) =>
+  entries.map(([segmentIndex, assetIndex, score]) => ({ segmentIndex, assetIndex, score }));
+
+const pairs = (chosen: number[], list: ReturnType<typeof candidates>) =>
+  chosen.map((index) => [list[index].segmentIndex, list[index].assetIndex]).sort();
+
+describe('assignAssetsOptimally', () => {
+  it('gives up the best single match when the total is higher', () => {
+    // Greedy takes 0-A (10) and is left with 1-B (1); swapping them scores 18
+    const list = candidates([0, 0, 10], [0, 1, 9], [1, 0, 9], [1, 1, 1]);
+
+    expect(pairs(assignAssetsOptimally(list, NO_BONUSES), list)).toEqual([
+      [0, 1],
+      [1, 0],
+    ]);
+  });
+
+  it('keeps to the per-segment and per-asset limits', () => {
+    const list = candidates([0, 0, 5], [0, 1, 4], [0, 2, 3], [1, 0, 5], [2, 0, 5]);
+    const options = { ...NO_BONUSES, maxAssetsPerSegment: 2, maxUsesPerAsset: 2 };
+    const chosen = pairs(assignAssetsOptimally(list, options), list);
+
+    expect(chosen.filter(([segment]) => segment === 0).length).toBeLessThanOrEqual(2);
+    expect(chosen.filter(([, asset]) => asset === 0)).toHaveLength(2);
+  });
+
+  it('leaves out matches that only lose score', () => {
+    const list = candidates([0, 0, 2], [1, 0, 1]);
+    const options = { ...NO_BONUSES, maxUsesPerAsset: 2, reusePenalty: 1.5 };
+
+    expect(pairs(assignAssetsOptimally(list, options), list)).toEqual([[0, 0]]);
+  });
+
+  it('swaps out an asset reused in the next segment', () => {
+    // The flow takes asset 0 twice (6) - with the penalty, asset 1 in segment 1 scores more
+    const list = candidates([0, 0, 3], [1, 0, 3], [1, 1, 2]);
+    const options = { ...NO_BONUSES, maxUsesPerAsset: 2 };
+
+    expect(pairs(assignAssetsOptimally(list, options), list)).toEqual([
+      [0, 0],
+      [1, 0],
+    ]);
+    expect(
+      pairs(assignAssetsOptimally(list, { ...options, adjacentReusePenalty: 2 }), list)
+    ).toEqual([
+      [0, 0],
+      [1, 1],
+    ]);
+  });
+});
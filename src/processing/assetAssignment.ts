@@ -0,0 +1,247 @@
+// ============================================
+// Asset Assignment
+// Globally optimal segment-to-asset assignment: min-cost flow with
+// usage limits and bonuses, then local search for adjacent reuse
+// ============================================
+
+export interface AssignmentCandidate {
+  segmentIndex: number; // Position of the segment in the script
+  assetIndex: number;
+  score: number;
+}
+
+export interface AssignmentOptions {
+  maxAssetsPerSegment: number;
+  maxUsesPerAsset: number;
+  firstUseBonus: number;        // Added the first time an asset is used, so more assets get used
+  reusePenalty: number;         // Grows with each further use of the same asset
+  adjacentReusePenalty: number; // Same asset in consecutive segments
+}
+
+interface FlowEdge {
+  to: number;
+  capacity: number;
+  cost: number;
+  reverse: number; // Index of the reverse edge in graph[to]
+  candidate?: number;
+}
+
+const EPSILON = 1e-9;
+
+const addEdge = (
+  graph: FlowEdge[][],
+  from: number,
+  to: number,
+  capacity: number,
+  cost: number,
+  candidate?: number
+) => {
+  graph[from].push({ to, capacity, cost, reverse: graph[to].length, candidate });
+  graph[to].push({ to: from, capacity: 0, cost: -cost, reverse: graph[from].length - 1 });
+};
+
+/**
+ * Successive shortest paths, stopping once no path lowers the cost
+ * (a minimum-cost flow of any size, not a maximum flow)
+ */
+const runMinCostFlow = (graph: FlowEdge[][], source: number, sink: number): void => {
+  for (;;) {
+    // Bellman-Ford - residual costs can be negative
+    const distance = graph.map(() => Infinity);
+    const previous: ({ node: number; edge: number } | undefined)[] = graph.map(() => undefined);
+    distance[source] = 0;
+
+    for (let round = 0; round < graph.length; round++) {
+      let changed = false;
+      graph.forEach((edges, node) => {
+        if (distance[node] === Infinity) return;
+        edges.forEach((edge, index) => {
+          if (edge.capacity > 0 && distance[node] + edge.cost < distance[edge.to] - EPSILON) {
+            distance[edge.to] = distance[node] + edge.cost;
+            previous[edge.to] = { node, edge: index };
+            changed = true;
+          }
+        });
+      });
+      if (!changed) break;
+    }
+
+    if (distance[sink] >= -EPSILON) return;
+
+    let bottleneck = Infinity;
+    for (let node = sink; node !== source; node = previous[node]!.node) {
+      const { node: from, edge } = previous[node]!;
+      bottleneck = Math.min(bottleneck, graph[from][edge].capacity);
+    }
+    for (let node = sink; node !== source; node = previous[node]!.node) {
+      const { node: from, edge } = previous[node]!;
+      const forward = graph[from][edge];
+      forward.capacity -= bottleneck;
+      graph[forward.to][forward.reverse].capacity += bottleneck;
+    }
+  }
+};
+
+/**
+ * Total value of an assignment, including bonuses and penalties
+ */
+const evaluateAssignment = (
+  selected: Set<number>,
+  candidates: AssignmentCandidate[],
+  options: AssignmentOptions
+): number => {
+  const uses = new Map<number, number>();
+  const segmentsByAsset = new Map<number, Set<number>>();
+  let total = 0;
+
+  for (const index of selected) {
+    const { segmentIndex, assetIndex, score } = candidates[index];
+    total += score;
+    uses.set(assetIndex, (uses.get(assetIndex) ?? 0) + 1);
+    segmentsByAsset.set(
+      assetIndex,
+      (segmentsByAsset.get(assetIndex) ?? new Set<number>()).add(segmentIndex)
+    );
+  }
+
+  for (const [assetIndex, count] of uses) {
+    total += options.firstUseBonus - (options.reusePenalty * (count - 1) * count) / 2;
+
+    const segments = segmentsByAsset.get(assetIndex)!;
+    for (const segmentIndex of segments) {
+      if (segments.has(segmentIndex + 1)) total -= options.adjacentReusePenalty;
+    }
+  }
+
+  return total;
+};
+
+const isFeasible = (
+  selected: Set<number>,
+  candidates: AssignmentCandidate[],
+  options: AssignmentOptions
+): boolean => {
+  const perSegment = new Map<number, number>();
+  const perAsset = new Map<number, number>();
+  const pairs = new Set<string>();
+
+  for (const index of selected) {
+    const { segmentIndex, assetIndex } = candidates[index];
+    const pair = `${segmentIndex}:${assetIndex}`;
+    if (pairs.has(pair)) return false;
+    pairs.add(pair);
+
+    perSegment.set(segmentIndex, (perSegment.get(segmentIndex) ?? 0) + 1);
+    perAsset.set(assetIndex, (perAsset.get(assetIndex) ?? 0) + 1);
+    if (
+      perSegment.get(segmentIndex)! > options.maxAssetsPerSegment ||
+      perAsset.get(assetIndex)! > options.maxUsesPerAsset
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * Choose the candidates that maximize the total score
+ * Returns indexes into candidates
+ */
+export const assignAssetsOptimally = (
+  candidates: AssignmentCandidate[],
+  options: AssignmentOptions
+): number[] => {
+  const segmentIndexes = [...new Set(candidates.map((c) => c.segmentIndex))];
+  const assetIndexes = [...new Set(candidates.map((c) => c.assetIndex))];
+
+  // Nodes: source, segments, assets, sink
+  const source = 0;
+  const segmentNode = new Map(segmentIndexes.map((index, i) => [index, 1 + i]));
+  const assetNode = new Map(
+    assetIndexes.map((index, i) => [index, 1 + segmentIndexes.length + i])
+  );
+  const sink = 1 + segmentIndexes.length + assetIndexes.length;
+  const graph: FlowEdge[][] = Array.from({ length: sink + 1 }, () => []);
+
+  for (const node of segmentNode.values()) {
+    addEdge(graph, source, node, options.maxAssetsPerSegment, 0);
+  }
+  candidates.forEach((candidate, index) => {
+    addEdge(
+      graph,
+      segmentNode.get(candidate.segmentIndex)!,
+      assetNode.get(candidate.assetIndex)!,
+      1,
+      -candidate.score,
+      index
+    );
+  });
+
+  // One edge per use of an asset - costs rise with each use, so they fill in order
+  for (const node of assetNode.values()) {
+    for (let use = 1; use <= options.maxUsesPerAsset; use++) {
+      addEdge(
+        graph,
+        node,
+        sink,
+        1,
+        use === 1 ? -options.firstUseBonus : options.reusePenalty * (use - 1)
+      );
+    }
+  }
+
+  runMinCostFlow(graph, source, sink);
+
+  const selected = new Set<number>();
+  for (const node of segmentNode.values()) {
+    for (const edge of graph[node]) {
+      if (edge.candidate !== undefined && edge.capacity === 0) selected.add(edge.candidate);
+    }
+  }
+
+  // The flow can't see adjacent reuse - improve with single moves until none helps
+  let value = evaluateAssignment(selected, candidates, options);
+  const bySegment = new Map<number, number[]>();
+  candidates.forEach(({ segmentIndex }, index) => {
+    bySegment.set(segmentIndex, [...(bySegment.get(segmentIndex) ?? []), index]);
+  });
+  const maxRounds = candidates.length * 4;
+
+  for (let round = 0; round < maxRounds; round++) {
+    let best: { selected: Set<number>; value: number } | undefined;
+
+    const consider = (next: Set<number>) => {
+      if (!isFeasible(next, candidates, options)) return;
+      const nextValue = evaluateAssignment(next, candidates, options);
+      if (nextValue > (best?.value ?? value) + EPSILON) {
+        best = { selected: next, value: nextValue };
+      }
+    };
+
+    candidates.forEach((candidate, index) => {
+      if (selected.has(index)) {
+        // Drop it, or swap it for another asset in the same segment
+        consider(new Set([...selected].filter((i) => i !== index)));
+        for (const other of bySegment.get(candidate.segmentIndex)!) {
+          if (!selected.has(other)) {
+            consider(new Set([...selected].filter((i) => i !== index).concat(other)));
+          }
+        }
+      } else {
+        consider(new Set([...selected, index]));
+      }
+    });
+
+    if (!best) break;
+    selected.clear();
+    best.selected.forEach((index) => selected.add(index));
+    value = best.value;
+  }
+
+  return [...selected].sort(
+    (a, b) =>
+      candidates[a].segmentIndex - candidates[b].segmentIndex ||
+      candidates[b].score - candidates[a].score
+  );
+};
@@ -0,0 +1,195 @@
+// ============================================
+// Asset Catalog
+// Typed index of the asset library under public/assets -
+// built by indexAssetLibrary (assetCatalogFile.ts), read here
+// ============================================
+
+import { staticFile } from 'remotion';
+import { z } from 'zod';
+import type { HelperAsset } from '../types';
+import { applyMediaInfo, createHelperAssetFromPath } from './assetMatcher';
+import { findAssetMetadata, type AssetManifest } from './assetManifest';
+import type { MediaCatalog } from './mediaProbe';
+
+// ----- Schema -----
+
+export const CATALOG_CATEGORIES = ['helpers', 'images', 'sfx', 'music', 'avatar'] as const;
+
+export type CatalogCategory = (typeof CATALOG_CATEGORIES)[number];
+
+export const catalogEntrySchema = z
+  .object({
+    path: z.string().min(1),       // Relative to public/, e.g. "assets/helpers/intro.mp4"
+    category: z.enum(CATALOG_CATEGORIES),
+    type: z.enum(['video', 'image', 'audio']),
+    keywords: z.array(z.string()), // File name words and manifest tags
+    container: z.enum(['mp4', 'mov', 'wav', 'png', 'jpeg']),
+    durationSeconds: z.number().min(0),
+    fps: z.number().positive().optional(),
+    width: z.number().int().positive().optional(),
+    height: z.number().int().positive().optional(),
+    orientation: z.enum(['portrait', 'landscape', 'square']).optional(),
+    hasVideo: z.boolean(),
+    hasAudio: z.boolean(),
+    sizeBytes: z.number().int().min(0),
+    hash: z.string().regex(/^[0-9a-f]{64}$/), // SHA-256 of the file
+  })
+  .strict();
+
+export const assetCatalogSchema = z
+  .object({
+    version: z.literal(1),
+    entries: z.array(catalogEntrySchema),
+  })
+  .strict();
+
+export type CatalogEntry = z.infer<typeof catalogEntrySchema>;
+export type AssetCatalog = z.infer<typeof assetCatalogSchema>;
+export type AssetOrientation = NonNullable<CatalogEntry['orientation']>;
+
+// Where indexAssetLibrary writes the catalog, relative to public/
+export const ASSET_CATALOG_PATH = 'assets/assets.catalog.json';
+
+/**
+ * Thrown when a catalog does not match the schema
+ */
+export class AssetCatalogError extends Error {
+  constructor(source: string, details: string) {
+    super(`Invalid asset catalog in ${source}:\n${details}`);
+    this.name = 'AssetCatalogError';
+  }
+}
+
+// ----- Loading -----
+
+/**
+ * Validate an asset catalog
+ * Accepts a parsed object or JSON text; throws AssetCatalogError if invalid
+ */
+export const parseAssetCatalog = (raw: unknown, source = ASSET_CATALOG_PATH): AssetCatalog => {
+  let data = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      throw new AssetCatalogError(source, `  Invalid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const result = assetCatalogSchema.safeParse(data);
+  if (!result.success) {
+    throw new AssetCatalogError(
+      source,
+      result.error.issues
+        .map((issue) => `  ${['$', ...issue.path].join('.')}: ${issue.message}`)
+        .join('\n')
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Fetch the catalog from public/ - works in the browser
+ */
+export const fetchAssetCatalog = async (
+  url: string = staticFile(ASSET_CATALOG_PATH)
+): Promise<AssetCatalog> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new AssetCatalogError(url, `  HTTP ${response.status}`);
+  }
+  return parseAssetCatalog(await response.text(), url);
+};
+
+// ----- Lookups -----
+
+/**
+ * Portrait, landscape or square - undefined without dimensions
+ */
+export const getOrientation = (
+  width: number | undefined,
+  height: number | undefined
+): AssetOrientation | undefined => {
+  if (!width || !height) return undefined;
+  if (width === height) return 'square';
+  return width > height ? 'landscape' : 'portrait';
+};
+
+export const getCatalogEntries = (
+  catalog: AssetCatalog,
+  category: CatalogCategory
+): CatalogEntry[] => catalog.entries.filter((entry) => entry.category === category);
+
+/**
+ * The avatar footage - the first file indexed under assets/avatar
+ */
+export const getCatalogAvatar = (catalog: AssetCatalog): CatalogEntry => {
+  const [avatar] = getCatalogEntries(catalog, 'avatar');
+  if (!avatar) {
+    throw new Error(
+      'No avatar in the asset catalog - add one to public/assets/avatar and run npm run index-assets'
+    );
+  }
+  return avatar;
+};
+
+/**
+ * Find an entry by path, file name, or file name without extension
+ */
+export const findCatalogEntry = (
+  catalog: AssetCatalog,
+  name: string
+): CatalogEntry | undefined => {
+  const lower = name.toLowerCase();
+
+  return catalog.entries.find((entry) => {
+    const path = entry.path.toLowerCase();
+    const fileName = path.split('/').pop() ?? path;
+    return (
+      path === lower ||
+      path.endsWith(`/${lower}`) ||
+      fileName.replace(/\.[^.]+$/, '') === lower
+    );
+  });
+};
+
+/**
+ * Probed media of every entry, keyed by the src the pipeline uses
+ */
+export const toMediaCatalog = (
+  catalog: AssetCatalog,
+  resolveSrc: (path: string) => string = staticFile
+): MediaCatalog =>
+  Object.fromEntries(catalog.entries.map((entry) => [resolveSrc(entry.path), entry]));
+
+/**
+ * Helper assets for matching - videos and images from helpers/ and images/
+ * Keywords come from the catalog; manifest metadata still applies on top
+ */
+export const createAssetsFromCatalog = (
+  catalog: AssetCatalog,
+  options: {
+    fps: number;
+    manifest?: AssetManifest;
+    resolveSrc?: (path: string) => string;
+  }
+): HelperAsset[] => {
+  const { fps, manifest, resolveSrc = staticFile } = options;
+
+  return catalog.entries
+    .filter((entry) => entry.category === 'helpers' || entry.category === 'images')
+    .filter((entry) => entry.type !== 'audio')
+    .map((entry) => {
+      const asset = createHelperAssetFromPath(
+        resolveSrc(entry.path),
+        entry.type === 'video' ? 'video' : 'image',
+        findAssetMetadata(manifest, entry.path)
+      );
+      return applyMediaInfo(
+        { ...asset, keywords: [...new Set([...asset.keywords, ...entry.keywords])] },
+        entry,
+        fps
+      );
+    });
+};
@@ -0,0 +1,120 @@
+// ============================================
+// Asset Library Indexer (Node only)
+// Scans public/assets, probes and hashes each file and writes the
+// catalog - not part of the Remotion bundle
+// ============================================
+
+import { createHash } from 'crypto';
+import {
+  closeSync,
+  existsSync,
+  openSync,
+  readdirSync,
+  readFileSync,
+  readSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import {
+  ASSET_CATALOG_PATH,
+  CATALOG_CATEGORIES,
+  getOrientation,
+  parseAssetCatalog,
+  type AssetCatalog,
+  type CatalogCategory,
+  type CatalogEntry,
+} from './assetCatalog';
+import { extractKeywordsFromFilename, extractKeywordsFromTags } from './assetMatcher';
+import { findAssetMetadata } from './assetManifest';
+import { loadAssetManifestFromDirectory } from './assetManifestFile';
+import { MediaProbeError } from './mediaProbe';
+import { probeMediaFile } from './mediaProbeFile';
+
+const HASH_CHUNK_BYTES = 1024 * 1024;
+
+/**
+ * SHA-256 of a file, read in chunks so large videos aren't loaded whole
+ */
+const hashFile = (path: string): string => {
+  const hash = createHash('sha256');
+  const buffer = new Uint8Array(HASH_CHUNK_BYTES);
+  const fd = openSync(path, 'r');
+
+  try {
+    let read: number;
+    while ((read = readSync(fd, buffer, 0, HASH_CHUNK_BYTES, null)) > 0) {
+      hash.update(buffer.subarray(0, read));
+    }
+  } finally {
+    closeSync(fd);
+  }
+
+  return hash.digest('hex');
+};
+
+const indexCategory = (publicDir: string, category: CatalogCategory): CatalogEntry[] => {
+  const relativeDir = `assets/${category}`;
+  const directory = join(publicDir, relativeDir);
+  if (!existsSync(directory)) return [];
+
+  const manifest = loadAssetManifestFromDirectory(directory);
+  const entries: CatalogEntry[] = [];
+
+  for (const file of readdirSync(directory).sort()) {
+    const filePath = join(directory, file);
+    // Sidecars and manifests are metadata, not assets
+    if (file.startsWith('.') || file.endsWith('.json') || !statSync(filePath).isFile()) continue;
+
+    let info;
+    try {
+      info = probeMediaFile(filePath);
+    } catch (err) {
+      if (!(err instanceof MediaProbeError)) throw err;
+      console.warn(`  - Skipped ${relativeDir}/${file}: ${err.message}`);
+      continue;
+    }
+
+    const tags = extractKeywordsFromTags(findAssetMetadata(manifest, file)?.tags ?? []);
+    const type = !info.hasVideo ? 'audio' : info.durationSeconds > 0 ? 'video' : 'image';
+    const orientation = getOrientation(info.width, info.height);
+
+    entries.push({
+      path: `${relativeDir}/${file}`,
+      category,
+      type,
+      keywords: [...new Set([...extractKeywordsFromFilename(file), ...tags])],
+      ...info,
+      ...(orientation && { orientation }),
+      sizeBytes: statSync(filePath).size,
+      hash: hashFile(filePath),
+    });
+  }
+
+  return entries;
+};
+
+/**
+ * Index the asset library under <publicDir>/assets/{helpers,images,sfx,music,avatar}
+ * Missing folders are skipped, as are files that aren't MP4/MOV/WAV/PNG/JPEG
+ */
+export const indexAssetLibrary = (publicDir: string): AssetCatalog => ({
+  version: 1,
+  entries: CATALOG_CATEGORIES.flatMap((category) => indexCategory(publicDir, category)),
+});
+
+/**
+ * Write the catalog to <publicDir>/assets/assets.catalog.json
+ */
+export const writeAssetCatalog = (publicDir: string, catalog: AssetCatalog): void => {
+  const json = `${JSON.stringify(catalog, null, 2)}\n`;
+  writeFileSync(join(publicDir, ASSET_CATALOG_PATH), json, 'utf8');
+};
+
+/**
+ * Load and validate a catalog file
+ * Throws AssetCatalogError if the file content is invalid
+ */
+export const loadAssetCatalogFromFile = (filePath: string): AssetCatalog => {
+  return parseAssetCatalog(readFileSync(filePath, 'utf8'), filePath);
+};
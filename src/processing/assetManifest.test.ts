@@ -0,0 +1,87 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  AssetManifestError,
+  findAssetMetadata,
+  parseAssetManifest,
+  parseAssetMetadata,
+} from './assetManifest';
+import { loadAssetManifestFromDirectory } from './assetManifestFile';
+
+describe('parseAssetMetadata', () => {
+  it('reports each invalid field by path', () => {
+    expect(() => parseAssetMetadata({ startFrame: 60, endFrame: 30 }, 'mining.json')).toThrow(
+      /mining\.json:\n {2}\$\.endFrame: endFrame must be after startFrame/
+    );
+    expect(() => parseAssetMetadata({ tags: ['heat'], colour: 'red' })).toThrow(AssetManifestError);
+    expect(() => parseAssetMetadata('{ "fit": ')).toThrow('Invalid JSON');
+  });
+});
+
+describe('findAssetMetadata', () => {
+  const manifest = parseAssetManifest({
+    assets: {
+      'mining-animation': { fit: 'contain' },
+      'helpers/phone.mp4': { tags: ['wallet'] },
+      '50%off.mp4': { doNotUse: true },
+    },
+  });
+
+  it('matches file names with or without extension, path suffixes and escaped srcs', () => {
+    const mining = findAssetMetadata(manifest, '/assets/helpers/mining-animation.mp4');
+    expect(mining?.fit).toBe('contain');
+    expect(findAssetMetadata(manifest, 'assets/helpers/phone.mp4')?.tags).toEqual(['wallet']);
+    expect(findAssetMetadata(manifest, '/assets/helpers/50%25off.mp4')?.doNotUse).toBe(true);
+    expect(findAssetMetadata(manifest, 'assets/helpers/intro.mp4')).toBeUndefined();
+  });
+
+  it('keeps raw file names that are not valid escapes', () => {
+    expect(findAssetMetadata(manifest, '50%off.mp4')?.doNotUse).toBe(true);
+  });
+});
+
+describe('loadAssetManifestFromDirectory', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'asset-manifest-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const write = (name: string, content: unknown) => {
+    const text = typeof content === 'string' ? content : JSON.stringify(content);
+    writeFileSync(join(directory, name), text);
+  };
+
+  it('lays sidecar fields over the manifest entry', () => {
+    write('mining.mp4', '');
+    write('50%off.mp4', '');
+    write('mining.json', { startFrame: 30 });
+    write('50%off.mp4.json', { tags: ['sale'] });
+    write('assets.manifest.json', {
+      assets: { mining: { startFrame: 0, endFrame: 90, fit: 'contain' }, intro: { fit: 'cover' } },
+    });
+
+    expect(loadAssetManifestFromDirectory(directory).assets).toEqual({
+      'mining.mp4': { startFrame: 30, endFrame: 90, fit: 'contain' },
+      '50%off.mp4': { tags: ['sale'] },
+      mining: { startFrame: 0, endFrame: 90, fit: 'contain' },
+      intro: { fit: 'cover' },
+    });
+  });
+
+  it('rejects a sidecar range that ends before the manifest start', () => {
+    write('mining.mp4', '');
+    write('mining.json', { endFrame: 20 });
+    write('assets.manifest.json', { assets: { mining: { startFrame: 30 } } });
+
+    expect(() => loadAssetManifestFromDirectory(directory)).toThrow(
+      'endFrame must be after startFrame'
+    );
+  });
+});
@@ -0,0 +1,133 @@
+// ============================================
+// Asset Manifest
+// Validates sidecar metadata for helper videos and images -
+// an asset.json next to the file or a single assets.manifest.json
+// ============================================
+
+import { z } from 'zod';
+
+// ----- Schema -----
+
+export const assetMetadataSchema = z
+  .object({
+    title: z.string().min(1).optional(),
+    description: z.string().optional(),
+    tags: z.array(z.string().min(1)).optional(),     // Matched like file name keywords
+    synonyms: z.array(z.string().min(1)).optional(), // Other words for the subject, weaker matches
+    fit: z.enum(['cover', 'contain']).optional(),
+    startFrame: z.number().int().min(0).optional(),  // Usable range of a video, in the file's own frames
+    endFrame: z.number().int().positive().optional(),
+    durationFrames: z.number().int().positive().optional(), // Length of the video file
+    doNotUse: z.boolean().optional(),                // Never picked automatically
+  })
+  .strict()
+  .refine(
+    (metadata) =>
+      metadata.startFrame === undefined ||
+      metadata.endFrame === undefined ||
+      metadata.endFrame > metadata.startFrame,
+    { message: 'endFrame must be after startFrame', path: ['endFrame'] }
+  );
+
+// Keyed by file name (with or without extension) or a path suffix
+export const assetManifestSchema = z
+  .object({
+    assets: z.record(assetMetadataSchema),
+  })
+  .strict();
+
+export type AssetMetadata = z.infer<typeof assetMetadataSchema>;
+export type AssetManifest = z.infer<typeof assetManifestSchema>;
+
+export const ASSET_MANIFEST_FILENAME = 'assets.manifest.json';
+
+/**
+ * Thrown when a sidecar file or manifest does not match the schema
+ */
+export class AssetManifestError extends Error {
+  constructor(source: string, details: string) {
+    super(`Invalid asset metadata in ${source}:\n${details}`);
+    this.name = 'AssetManifestError';
+  }
+}
+
+// ----- Loading -----
+
+const parseWithSchema = <T>(raw: unknown, schema: z.ZodType<T>, source: string): T => {
+  let data = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      throw new AssetManifestError(source, `  Invalid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    throw new AssetManifestError(
+      source,
+      result.error.issues
+        .map((issue) => `  ${['$', ...issue.path].join('.')}: ${issue.message}`)
+        .join('\n')
+    );
+  }
+  return result.data;
+};
+
+/**
+ * Validate the metadata of one asset (a sidecar asset.json)
+ * Accepts a parsed object or JSON text; throws AssetManifestError if invalid
+ */
+export const parseAssetMetadata = (raw: unknown, source = 'asset metadata'): AssetMetadata => {
+  return parseWithSchema(raw, assetMetadataSchema, source);
+};
+
+/**
+ * Validate an assets.manifest.json
+ * Accepts a parsed object or JSON text; throws AssetManifestError if invalid
+ */
+export const parseAssetManifest = (
+  raw: unknown,
+  source = ASSET_MANIFEST_FILENAME
+): AssetManifest => {
+  return parseWithSchema(raw, assetManifestSchema, source);
+};
+
+/**
+ * Decode a src escaped by staticFile - file names that aren't valid
+ * escapes (e.g. 50%off.mp4 straight from disk) are kept as they are
+ */
+const decodePath = (path: string): string => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+};
+
+/**
+ * Find the manifest entry for an asset path or URL
+ * Keys match the file name with or without extension, or a path suffix
+ */
+export const findAssetMetadata = (
+  manifest: AssetManifest | undefined,
+  assetPath: string
+): AssetMetadata | undefined => {
+  if (!manifest) return undefined;
+
+  const path = decodePath(assetPath).toLowerCase();
+  const filename = path.split('/').pop() || path;
+
+  const key = Object.keys(manifest.assets).find((name) => {
+    const target = name.toLowerCase().replace(/^\/+/, '');
+    return (
+      filename === target ||
+      filename.replace(/\.[^.]+$/, '') === target ||
+      path.endsWith(`/${target}`)
+    );
+  });
+
+  return key === undefined ? undefined : manifest.assets[key];
+};
@@ -0,0 +1,55 @@
+// ============================================
+// Asset Manifest Loader (Node only)
+// Reads sidecar asset metadata from disk - not part of the Remotion bundle
+// ============================================
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  ASSET_MANIFEST_FILENAME,
+  findAssetMetadata,
+  parseAssetManifest,
+  parseAssetMetadata,
+  type AssetManifest,
+  type AssetMetadata,
+} from './assetManifest';
+
+/**
+ * Load the metadata for the media files in a directory
+ * Reads assets.manifest.json and a <name>.json (or <name>.<ext>.json) sidecar
+ * next to each file - sidecar fields win over the manifest
+ * Throws AssetManifestError if a file is invalid
+ */
+export const loadAssetManifestFromDirectory = (directory: string): AssetManifest => {
+  const manifestPath = join(directory, ASSET_MANIFEST_FILENAME);
+  const manifest = existsSync(manifestPath)
+    ? parseAssetManifest(readFileSync(manifestPath, 'utf8'), manifestPath)
+    : { assets: {} };
+
+  // Sidecar entries go first so lookups find them before the manifest's own keys
+  const assets: Record<string, AssetMetadata> = {};
+
+  for (const file of readdirSync(directory)) {
+    if (file.endsWith('.json')) continue;
+
+    const sidecarPath = [`${file}.json`, `${file.replace(/\.[^.]+$/, '')}.json`]
+      .map((name) => join(directory, name))
+      .find((path) => existsSync(path));
+    if (!sidecarPath) continue;
+
+    const sidecar = parseAssetMetadata(readFileSync(sidecarPath, 'utf8'), sidecarPath);
+    // A sidecar range end can land before the manifest's start - check the merge too
+    assets[file] = parseAssetMetadata(
+      { ...findAssetMetadata(manifest, file), ...sidecar },
+      sidecarPath
+    );
+  }
+
+  for (const [name, metadata] of Object.entries(manifest.assets)) {
+    if (!(name in assets)) {
+      assets[name] = metadata;
+    }
+  }
+
+  return { assets };
+};
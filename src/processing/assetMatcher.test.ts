@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import type { ScriptSegment } from '../types';
+import { extractKeywords } from '../utils/keywords';
+import {
+  createHelperAssetFromPath,
+  extractKeywordsFromTags,
+  matchAssetsToSegments,
+} from './assetMatcher';
+
+const createSegments = (...texts: string[]): ScriptSegment[] =>
+  texts.map((text, i) => ({
+    id: `seg-${i + 1}`,
+    text,
+    words: [],
+    startFrame: i * 90,
+    endFrame: i * 90 + 90,
+    durationFrames: 90,
+    keywords: extractKeywords(text),
+    importance: 'medium',
+    hasKeyPhrase: false,
+  }));
+
+const ASSET = {
+  ...createHelperAssetFromPath('/helpers/clip.mp4', 'video'),
+  keywords: ['heater', 'bitcoin'],
+};
+
+// Every segment may take the asset, so each gets its score
+const scoreSegments = (segments: ScriptSegment[], scorer: 'bm25' | 'keyword') =>
+  matchAssetsToSegments(segments, [ASSET], {
+    scorer,
+    minRelevanceScore: 0,
+    assignment: 'greedy',
+  }).matches.reduce<Record<string, number>>(
+    (scores, match) => ({ ...scores, [match.segmentId]: match.relevanceScore }),
+    {}
+  );
+
+describe('matchAssetsToSegments with the bm25 scorer', () => {
+  const segments = createSegments(
+    'The heater warms your water',
+    'The heater quietly mines bitcoin',
+    'Put a heater in every home'
+  );
+
+  it('weighs keywords by how rare they are in the script', () => {
+    const scores = scoreSegments(segments, 'bm25');
+
+    // "heater" is in every segment, so it says little on its own
+    expect(scores['seg-2']).toBeGreaterThan(0.8);
+    expect(scores['seg-1']).toBeLessThan(0.15);
+
+    expect(scoreSegments(segments, 'keyword')['seg-1']).toBeGreaterThanOrEqual(0.15);
+  });
+
+  it('saturates repeats of a keyword', () => {
+    const repeated = createSegments(
+      'Bitcoin bitcoin bitcoin bitcoin from a heater',
+      'Bitcoin from a heater',
+      'Nothing to see'
+    );
+    const scores = scoreSegments(repeated, 'bm25');
+
+    expect(scores['seg-1']).toBeLessThanOrEqual(1);
+    expect(scores['seg-1'] / scores['seg-2']).toBeLessThan(2);
+  });
+});
+
+describe('extractKeywordsFromTags', () => {
+  it('splits tags into words, as sidecar metadata does', () => {
+    const tags = ['Hot water', 'bitcoin-mining', 'on'];
+
+    expect(extractKeywordsFromTags(tags)).toEqual(['hot', 'water', 'bitcoin', 'mining']);
+    expect(createHelperAssetFromPath('/helpers/clip.mp4', 'video', { tags }).keywords).toEqual([
+      'clip',
+      ...extractKeywordsFromTags(tags),
+    ]);
+  });
+});
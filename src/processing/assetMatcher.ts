@@ -3,21 +3,56 @@
 // Matches helper assets to script segments via keyword analysis
 // ============================================
 
-import type { ScriptSegment, HelperAsset, AssetMatch } from '../types';
-import { normalizeWord } from '../utils/keywords';
+import type { ScriptSegment, HelperAsset, AssetMatch, KeywordHit } from '../types';
+import { extractKeywords, isStopWord, normalizeWord } from '../utils/keywords';
+import { DEFAULT_TEXT_NORMALIZER, type TextNormalizer } from '../utils/textNormalization';
+import { findAssetMetadata, type AssetManifest, type AssetMetadata } from './assetManifest';
+import { assignAssetsOptimally } from './assetAssignment';
+import type { MediaInfo } from './mediaProbe';
 
 export interface AssetMatcherOptions {
-  minRelevanceScore: number;  // Minimum score to consider a match (0-1)
-  maxAssetsPerSegment: number; // Maximum assets to match per segment
-  allowAssetReuse: boolean;   // Allow same asset to match multiple segments
+  minRelevanceScore: number;    // Minimum score to consider a match (0-1)
+  maxAssetsPerSegment: number;  // Maximum assets to match per segment
+  allowAssetReuse: boolean;     // Allow same asset to match multiple segments
+  normalizer: TextNormalizer;   // Stemming and synonyms used to compare keywords
+  scorer: AssetScorer;          // 'bm25' weighs keywords by rarity across the script, 'keyword' counts them
+  bm25: Bm25Parameters;
+  assignment: AssetAssignment;  // 'optimal' maximizes the total, 'greedy' takes top pairs first
+  maxUsesPerAsset: number;      // Per asset, when reuse is allowed (optimal only)
+  firstUseBonus: number;        // Rewards using each asset at least once (optimal only)
+  reusePenalty: number;         // Grows with each further use of an asset (optimal only)
+  adjacentReusePenalty: number; // Same asset in consecutive segments (optimal only)
+}
+
+export type AssetAssignment = 'optimal' | 'greedy';
+
+export type AssetScorer = 'bm25' | 'keyword';
+
+export interface Bm25Parameters {
+  k1: number; // Term frequency saturation
+  b: number;  // Segment length normalization (0 = none, 1 = full)
 }
 
 const DEFAULT_OPTIONS: AssetMatcherOptions = {
   minRelevanceScore: 0.15,    // Lower threshold for more matches
   maxAssetsPerSegment: 1,
   allowAssetReuse: true,      // Allow reuse by default
+  normalizer: DEFAULT_TEXT_NORMALIZER,
+  scorer: 'bm25',
+  bm25: { k1: 1.2, b: 0.75 },
+  assignment: 'optimal',
+  maxUsesPerAsset: 3,
+  firstUseBonus: 0.1,
+  reusePenalty: 0.05,
+  adjacentReusePenalty: 0.3,
 };
 
+interface AssetRelevance {
+  score: number;
+  matchedKeywords: string[];
+  hits: KeywordHit[];
+}
+
 export interface AssetMatchResult {
   matches: AssetMatch[];
   unmatchedSegments: string[];  // Segment IDs with no matches
@@ -41,12 +76,24 @@ export const extractKeywordsFromFilename = (filename: string): string[] => {
     .filter((p) => p.length >= 3);
 };
 
+/**
+ * Parse keywords from metadata tags, split like file names
+ * e.g., ["hot water", "bitcoin-mining"] -> ["hot", "water", "bitcoin", "mining"]
+ */
+export const extractKeywordsFromTags = (tags: string[]): string[] => {
+  return tags.flatMap((tag) =>
+    tag.split(/[-_\s]+/).map(normalizeWord).filter((word) => word.length >= 3)
+  );
+};
+
 /**
  * Create a HelperAsset from a file path
+ * Sidecar metadata, if given, adds tags to the keywords and overrides the defaults
  */
 export const createHelperAssetFromPath = (
   filePath: string,
-  type: 'video' | 'image'
+  type: 'video' | 'image',
+  metadata?: AssetMetadata
 ): HelperAsset => {
   const keywords = extractKeywordsFromFilename(filePath);
   const basename = filePath.split('/').pop()?.replace(/\.[^.]+$/, '') || filePath;
@@ -57,43 +104,99 @@ export const createHelperAssetFromPath = (
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ');
 
-  return {
+  const asset: HelperAsset = {
     type,
     src: filePath,
     title,
     keywords,
     fit: 'cover',
   };
+
+  return metadata ? applyAssetMetadata(asset, metadata) : asset;
+};
+
+/**
+ * Merge sidecar metadata into an asset
+ */
+export const applyAssetMetadata = (asset: HelperAsset, metadata: AssetMetadata): HelperAsset => {
+  const tagKeywords = extractKeywordsFromTags(metadata.tags ?? []);
+
+  return {
+    ...asset,
+    title: metadata.title ?? asset.title,
+    keywords: [...new Set([...asset.keywords, ...tagKeywords])],
+    fit: metadata.fit ?? asset.fit,
+    ...(metadata.startFrame !== undefined && { startFrame: metadata.startFrame }),
+    ...(metadata.endFrame !== undefined && { endFrame: metadata.endFrame }),
+    ...(metadata.durationFrames !== undefined && { durationFrames: metadata.durationFrames }),
+    ...(metadata.description && { description: metadata.description }),
+    ...(metadata.synonyms && { synonyms: metadata.synonyms }),
+    ...(metadata.doNotUse && { doNotUse: true }),
+  };
+};
+
+/**
+ * Set a helper video's length and frame rate from its probed media info
+ * The probe wins over a durationFrames from sidecar metadata. Like authored
+ * ranges, the length is in the file's own frames - at the output fps when
+ * the probe found no frame rate
+ */
+export const applyMediaInfo = (
+  asset: HelperAsset,
+  info: MediaInfo | undefined,
+  fps: number
+): HelperAsset => {
+  if (!info || asset.type !== 'video') return asset;
+
+  const sourceFps = info.fps ?? fps;
+  return {
+    ...asset,
+    ...(info.fps !== undefined && { sourceFps: info.fps }),
+    durationFrames: Math.floor(info.durationSeconds * sourceFps),
+  };
 };
 
 /**
  * Match assets to script segments
+ * With the bm25 scorer, the segments passed in are also the corpus keyword
+ * rarity is measured against - pass all segments of the ParsedScript
  */
 export const matchAssetsToSegments = (
   segments: ScriptSegment[],
   assets: HelperAsset[],
   options: Partial<AssetMatcherOptions> = {}
 ): AssetMatchResult => {
-  const { minRelevanceScore, maxAssetsPerSegment, allowAssetReuse } = {
+  const {
+    minRelevanceScore,
+    maxAssetsPerSegment,
+    allowAssetReuse,
+    normalizer,
+    scorer,
+    bm25,
+    assignment,
+    ...assignmentOptions
+  } = {
     ...DEFAULT_OPTIONS,
     ...options,
   };
+  const scoreAsset =
+    scorer === 'bm25'
+      ? createBm25Scorer(segments, normalizer, bm25)
+      : (segment: ScriptSegment, asset: HelperAsset) =>
+          calculateAssetRelevance(segment, asset, normalizer);
 
   const matches: AssetMatch[] = [];
   const usedAssets = new Set<string>();
   const matchedSegments = new Set<string>();
 
   // Score all segment-asset pairs
-  const allScores: {
-    segmentId: string;
-    asset: HelperAsset;
-    score: number;
-    matchedKeywords: string[];
-  }[] = [];
+  const allScores: (AssetRelevance & { segmentId: string; asset: HelperAsset })[] = [];
+
+  const usableAssets = assets.filter((asset) => !asset.doNotUse);
 
   for (const segment of segments) {
-    for (const asset of assets) {
-      const { score, matchedKeywords } = calculateAssetRelevance(segment, asset);
+    for (const asset of usableAssets) {
+      const { score, matchedKeywords, hits } = scoreAsset(segment, asset);
 
       if (score >= minRelevanceScore) {
         allScores.push({
@@ -101,45 +204,73 @@ export const matchAssetsToSegments = (
           asset,
           score,
           matchedKeywords,
+          hits,
         });
       }
     }
   }
 
-  // Sort by score descending
-  allScores.sort((a, b) => b.score - a.score);
-
-  // Greedy assignment: highest scores first, respecting constraints
-  for (const { segmentId, asset, score, matchedKeywords } of allScores) {
-    // Count how many assets already matched to this segment
-    const segmentMatchCount = matches.filter((m) => m.segmentId === segmentId).length;
+  if (assignment === 'optimal') {
+    // Indexes follow the script order, so adjacent segments differ by one
+    const segmentIndexes = new Map(segments.map((s, i) => [s.id, i]));
+    const assetIndexes = new Map(usableAssets.map((a, i) => [a.src, i]));
+
+    const chosen = assignAssetsOptimally(
+      allScores.map(({ segmentId, asset, score }) => ({
+        segmentIndex: segmentIndexes.get(segmentId)!,
+        assetIndex: assetIndexes.get(asset.src)!,
+        score,
+      })),
+      {
+        ...assignmentOptions,
+        maxAssetsPerSegment,
+        maxUsesPerAsset: allowAssetReuse ? assignmentOptions.maxUsesPerAsset : 1,
+      }
+    );
 
-    if (segmentMatchCount >= maxAssetsPerSegment) {
-      continue;
+    for (const index of chosen) {
+      const { segmentId, asset, score, matchedKeywords, hits } = allScores[index];
+      matches.push({ segmentId, asset, relevanceScore: score, matchedKeywords, hits });
+      usedAssets.add(asset.src);
+      matchedSegments.add(segmentId);
     }
+  } else {
+    // Sort by score descending
+    allScores.sort((a, b) => b.score - a.score);
 
-    // Check if asset already used (skip if reuse not allowed)
-    if (!allowAssetReuse && usedAssets.has(asset.src)) {
-      continue;
-    }
+    // Greedy assignment: highest scores first, respecting constraints
+    for (const { segmentId, asset, score, matchedKeywords, hits } of allScores) {
+      // Count how many assets already matched to this segment
+      const segmentMatchCount = matches.filter((m) => m.segmentId === segmentId).length;
 
-    // Even with reuse, don't match same asset to same segment twice
-    const alreadyMatchedToSegment = matches.some(
-      (m) => m.segmentId === segmentId && m.asset.src === asset.src
-    );
-    if (alreadyMatchedToSegment) {
-      continue;
-    }
+      if (segmentMatchCount >= maxAssetsPerSegment) {
+        continue;
+      }
+
+      // Check if asset already used (skip if reuse not allowed)
+      if (!allowAssetReuse && usedAssets.has(asset.src)) {
+        continue;
+      }
+
+      // Even with reuse, don't match same asset to same segment twice
+      const alreadyMatchedToSegment = matches.some(
+        (m) => m.segmentId === segmentId && m.asset.src === asset.src
+      );
+      if (alreadyMatchedToSegment) {
+        continue;
+      }
 
-    matches.push({
-      segmentId,
-      asset,
-      relevanceScore: score,
-      matchedKeywords,
-    });
+      matches.push({
+        segmentId,
+        asset,
+        relevanceScore: score,
+        matchedKeywords,
+        hits,
+      });
 
-    usedAssets.add(asset.src);
-    matchedSegments.add(segmentId);
+      usedAssets.add(asset.src);
+      matchedSegments.add(segmentId);
+    }
   }
 
   // Find unmatched
@@ -147,7 +278,7 @@ export const matchAssetsToSegments = (
     .filter((s) => !matchedSegments.has(s.id))
     .map((s) => s.id);
 
-  const unmatchedAssets = assets
+  const unmatchedAssets = usableAssets
     .filter((a) => !usedAssets.has(a.src))
     .map((a) => a.src);
 
@@ -158,35 +289,89 @@ export const matchAssetsToSegments = (
   };
 };
 
+/**
+ * Compare a segment keyword with an asset keyword
+ * Exact, same-stem and synonym hits count fully; substring hits count at partial weight
+ */
+const matchKeyword = (
+  segKw: string,
+  assetKw: string,
+  normalizer: TextNormalizer
+): KeywordHit | undefined => {
+  const hit = (via: KeywordHit['via'], partial: boolean, source?: string): KeywordHit => ({
+    segmentKeyword: segKw,
+    assetKeyword: assetKw,
+    via,
+    partial,
+    ...(source && { source }),
+  });
+
+  if (segKw === assetKw) return hit('exact', false);
+
+  const segStem = normalizer.stem(segKw);
+  const assetStem = normalizer.stem(assetKw);
+  if (segStem === assetStem) return hit('stem', false);
+
+  const synonym =
+    normalizer.expand(segKw).find((expansion) => expansion.stem === assetStem) ??
+    normalizer.expand(assetKw).find((expansion) => expansion.stem === segStem);
+  if (synonym) return hit('synonym', false, synonym.source);
+
+  if (segKw.includes(assetKw) || assetKw.includes(segKw)) return hit('partial', true);
+
+  // "mining" -> "mine" is part of "miner"
+  const shorter = segStem.length < assetStem.length ? segStem : assetStem;
+  const longer = shorter === segStem ? assetStem : segStem;
+  if (shorter.length >= 3 && longer.startsWith(shorter)) {
+    return hit('stem', true);
+  }
+
+  return undefined;
+};
+
 /**
  * Calculate relevance between a segment and asset
+ * Keyword scorer - every keyword counts the same
  */
 const calculateAssetRelevance = (
   segment: ScriptSegment,
-  asset: HelperAsset
-): { score: number; matchedKeywords: string[] } => {
+  asset: HelperAsset,
+  normalizer: TextNormalizer
+): AssetRelevance => {
   const segmentKeywords = segment.keywords;
   const assetKeywords = asset.keywords;
 
-  // Direct keyword matches
-  const matchedKeywords: string[] = [];
-  let directMatches = 0;
-  let partialMatches = 0;
+  // Keyword matches
+  const hits: KeywordHit[] = [];
 
   for (const segKw of segmentKeywords) {
     for (const assetKw of assetKeywords) {
-      if (segKw === assetKw) {
-        directMatches++;
-        matchedKeywords.push(segKw);
-      } else if (segKw.includes(assetKw) || assetKw.includes(segKw)) {
-        partialMatches++;
-        if (!matchedKeywords.includes(segKw)) {
-          matchedKeywords.push(segKw);
-        }
-      }
+      const hit = matchKeyword(segKw, assetKw, normalizer);
+      if (hit) hits.push(hit);
+    }
+  }
+
+  // Synonyms and description words from sidecar metadata count as partial matches
+  const looseKeywords = getLooseKeywords(asset);
+  for (const segKw of segmentKeywords) {
+    if (hits.some((hit) => hit.segmentKeyword === segKw)) continue;
+
+    const loose = looseKeywords.find(({ word }) => normalizer.stem(word) === normalizer.stem(segKw));
+    if (loose) {
+      hits.push({
+        segmentKeyword: segKw,
+        assetKeyword: loose.word,
+        via: 'metadata',
+        partial: true,
+        source: loose.source,
+      });
     }
   }
 
+  const directMatches = hits.filter((hit) => !hit.partial).length;
+  const partialMatches = hits.length - directMatches;
+  const matchedKeywords = hits.map((hit) => hit.segmentKeyword);
+
   // Check if asset title words appear in segment text
   const titleWords = asset.title.toLowerCase().split(/\s+/);
   const segmentTextLower = segment.text.toLowerCase();
@@ -210,22 +395,166 @@ const calculateAssetRelevance = (
     1.0
   );
 
-  return { score, matchedKeywords: [...new Set(matchedKeywords)] };
+  return { score, matchedKeywords: [...new Set(matchedKeywords)], hits };
+};
+
+/**
+ * Words from an asset's sidecar synonyms and description
+ */
+const getLooseKeywords = (asset: HelperAsset): { word: string; source: string }[] => {
+  return [
+    ...(asset.synonyms ?? []).map((word) => ({ word: normalizeWord(word), source: 'synonyms' })),
+    ...(asset.description ? extractKeywords(asset.description) : []).map((word) => ({
+      word,
+      source: 'description',
+    })),
+  ];
+};
+
+/**
+ * Content words of a segment with their counts
+ */
+const countSegmentTerms = (segment: ScriptSegment): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  for (const word of segment.text.split(/\s+/)) {
+    const term = normalizeWord(word);
+    if (term.length >= 3 && !isStopWord(word)) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+  }
+
+  return counts;
+};
+
+/**
+ * Create a BM25 scorer over a corpus of segments
+ * Each asset keyword is a query term: hits in a segment are weighted by how rare
+ * the keyword is across the corpus (IDF) and saturate with repeats (k1).
+ * The score is normalized by the asset's ideal score - every keyword appearing
+ * once in a segment of average length - so it stays in 0-1 like the keyword scorer
+ */
+const createBm25Scorer = (
+  corpus: ScriptSegment[],
+  normalizer: TextNormalizer,
+  { k1, b }: Bm25Parameters
+): ((segment: ScriptSegment, asset: HelperAsset) => AssetRelevance) => {
+  const termCounts = new Map(corpus.map((segment) => [segment, countSegmentTerms(segment)]));
+  const lengthOf = (counts: Map<string, number>) =>
+    [...counts.values()].reduce((sum, count) => sum + count, 0);
+  const averageLength =
+    corpus.reduce((sum, segment) => sum + lengthOf(termCounts.get(segment)!), 0) /
+      Math.max(corpus.length, 1) || 1;
+
+  // Weighted term frequency of an asset keyword in a segment, with the hits behind it
+  const termFrequency = (counts: Map<string, number>, keyword: string, loose?: string) => {
+    let frequency = 0;
+    const hits: KeywordHit[] = [];
+
+    for (const [term, count] of counts) {
+      if (loose) {
+        if (normalizer.stem(term) !== normalizer.stem(keyword)) continue;
+        hits.push({
+          segmentKeyword: term,
+          assetKeyword: keyword,
+          via: 'metadata',
+          partial: true,
+          source: loose,
+        });
+        frequency += count * 0.5;
+        continue;
+      }
+
+      const hit = matchKeyword(term, keyword, normalizer);
+      if (!hit) continue;
+      hits.push(hit);
+      frequency += count * (hit.partial ? 0.5 : 1);
+    }
+
+    return { frequency, hits };
+  };
+
+  // Document frequency is per keyword, so cache the IDF
+  const idfs = new Map<string, number>();
+  const idf = (keyword: string, loose?: string): number => {
+    const key = `${loose ?? ''}:${keyword}`;
+    let value = idfs.get(key);
+    if (value === undefined) {
+      const documentFrequency = corpus.filter(
+        (segment) => termFrequency(termCounts.get(segment)!, keyword, loose).frequency > 0
+      ).length;
+      value = Math.log(1 + (corpus.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      idfs.set(key, value);
+    }
+    return value;
+  };
+
+  return (segment, asset) => {
+    const counts = termCounts.get(segment) ?? countSegmentTerms(segment);
+    const lengthRatio = lengthOf(counts) / averageLength;
+    const hits: KeywordHit[] = [];
+
+    const termScore = (keyword: string, loose?: string): number => {
+      const { frequency, hits: termHits } = termFrequency(counts, keyword, loose);
+      hits.push(...termHits);
+      if (frequency === 0) return 0;
+      const saturation = (frequency * (k1 + 1)) / (frequency + k1 * (1 - b + b * lengthRatio));
+      return idf(keyword, loose) * saturation;
+    };
+
+    const keywords = [...new Set(asset.keywords)];
+    let score = keywords.reduce((sum, keyword) => sum + termScore(keyword), 0);
+    const idealScore = keywords.reduce((sum, keyword) => sum + idf(keyword), 0);
+
+    // Sidecar synonyms and description words add to the score but not the ideal
+    for (const { word, source } of getLooseKeywords(asset)) {
+      score += termScore(word, source);
+    }
+
+    return {
+      score: idealScore > 0 ? Math.min(score / idealScore, 1) : 0,
+      matchedKeywords: [...new Set(hits.map((hit) => hit.segmentKeyword))],
+      hits,
+    };
+  };
+};
+
+/**
+ * Explain which keywords (and which expansions) produced a match
+ * e.g. "bitcoin = bitcoin, mining ~ miner (stem), btc ~ bitcoin (synonym: btc -> bitcoin)"
+ */
+export const formatMatchExplanation = (match: AssetMatch): string => {
+  if (!match.hits || match.hits.length === 0) {
+    return match.matchedKeywords.join(', ');
+  }
+
+  return match.hits
+    .map((hit) => {
+      if (hit.via === 'exact') return `${hit.segmentKeyword} = ${hit.assetKeyword}`;
+
+      const detail = hit.source ? `${hit.via}: ${hit.source}` : hit.via;
+      return `${hit.segmentKeyword} ~ ${hit.assetKeyword} (${detail})`;
+    })
+    .join(', ');
 };
 
 /**
  * Get the best matching asset for a segment
+ * Uses the keyword scorer - a single segment has no corpus to weigh keywords against
  */
 export const getBestAssetForSegment = (
   segment: ScriptSegment,
   assets: HelperAsset[],
-  minScore: number = 0.2
+  minScore: number = 0.2,
+  normalizer: TextNormalizer = DEFAULT_TEXT_NORMALIZER
 ): HelperAsset | null => {
   let bestAsset: HelperAsset | null = null;
   let bestScore = 0;
 
   for (const asset of assets) {
-    const { score } = calculateAssetRelevance(segment, asset);
+    if (asset.doNotUse) continue;
+
+    const { score } = calculateAssetRelevance(segment, asset, normalizer);
     if (score > bestScore && score >= minScore) {
       bestScore = score;
       bestAsset = asset;
@@ -237,12 +566,41 @@ export const getBestAssetForSegment = (
 
 /**
  * Create HelperAsset array from file paths
+ * Metadata is looked up in the manifest by file name when given
  */
 export const createAssetsFromPaths = (
   videoPaths: string[],
-  imagePaths: string[]
+  imagePaths: string[],
+  manifest?: AssetManifest
 ): HelperAsset[] => {
-  const videoAssets = videoPaths.map((p) => createHelperAssetFromPath(p, 'video'));
-  const imageAssets = imagePaths.map((p) => createHelperAssetFromPath(p, 'image'));
+  const videoAssets = videoPaths.map((p) =>
+    createHelperAssetFromPath(p, 'video', findAssetMetadata(manifest, p))
+  );
+  const imageAssets = imagePaths.map((p) =>
+    createHelperAssetFromPath(p, 'image', findAssetMetadata(manifest, p))
+  );
   return [...videoAssets, ...imageAssets];
 };
+
+/**
+ * Find an asset by name, as written in a script directive
+ * Matches the file name with or without extension, a path suffix or the title
+ */
+export const findAssetByName = (
+  assets: HelperAsset[],
+  name: string
+): HelperAsset | undefined => {
+  const target = name.toLowerCase().replace(/^\/+/, '');
+
+  return assets.find((asset) => {
+    const path = decodeURIComponent(asset.src).toLowerCase();
+    const filename = path.split('/').pop() || path;
+
+    return (
+      filename === target ||
+      filename.replace(/\.[^.]+$/, '') === target ||
+      path.endsWith(`/${target}`) ||
+      asset.title.toLowerCase() === target
+    );
+  });
+};
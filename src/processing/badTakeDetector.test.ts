@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { TimedWord } from '../types';
+import { detectBadTakes } from './badTakeDetector';
+
+const WORD_SECONDS = 0.3;
+
+/**
+ * Time a transcript word by word - "[0.5s]" inserts a pause
+ */
+const timeWords = (transcript: string): TimedWord[] => {
+  const words: TimedWord[] = [];
+  let time = 0;
+
+  for (const part of transcript.split(/\s+/).filter(Boolean)) {
+    const pause = /^\[([\d.]+)s\]$/.exec(part);
+    if (pause) {
+      time += parseFloat(pause[1]);
+      continue;
+    }
+    words.push({ text: part, startSeconds: time, endSeconds: time + WORD_SECONDS });
+    time += WORD_SECONDS;
+  }
+  return words;
+};
+
+const detect = (transcript: string) => detectBadTakes(timeWords(transcript), { fps: 30 });
+
+const keptText = (transcript: string) =>
+  detect(transcript)
+    .keptWords.map((word) => word.text)
+    .join(' ');
+
+describe('detectBadTakes', () => {
+  it('cuts filler words', () => {
+    const { cuts } = detect('This heater um mines uh bitcoin.');
+
+    expect(cuts.map((cut) => [cut.reason, cut.text])).toEqual([
+      ['filler', 'um'],
+      ['filler', 'uh'],
+    ]);
+    expect(keptText('This heater um mines uh bitcoin.')).toBe('This heater mines bitcoin.');
+  });
+
+  it('cuts stutters and false starts', () => {
+    expect(keptText('The the heater mines bitcoin.')).toBe('the heater mines bitcoin.');
+    expect(keptText('It heats your wa- water for free.')).toBe('It heats your water for free.');
+  });
+
+  it('keeps legitimately doubled words', () => {
+    expect(detect('She had had enough.').cuts).toEqual([]);
+  });
+
+  it('cuts an abandoned attempt restarted after a pause', () => {
+    const transcript = 'Bitcoin mining uses a [0.6s] bitcoin mining heats your home.';
+    const { cuts } = detect(transcript);
+
+    expect(cuts).toHaveLength(1);
+    expect(cuts[0]).toMatchObject({ reason: 'retake', text: 'Bitcoin mining uses a' });
+    expect(keptText(transcript)).toBe('bitcoin mining heats your home.');
+  });
+
+  it('cuts a hesitant restart without a pause', () => {
+    expect(keptText('The water heater um the water heater mines bitcoin.')).toBe(
+      'the water heater mines bitcoin.'
+    );
+  });
+
+  it('keeps a finished sentence that the next one repeats', () => {
+    const transcript = 'Bitcoin mining uses a lot of power. [0.5s] Bitcoin mining heats your home.';
+
+    expect(detect(transcript).cuts).toEqual([]);
+    expect(keptText(transcript)).toBe(
+      'Bitcoin mining uses a lot of power. Bitcoin mining heats your home.'
+    );
+  });
+
+  it('needs a pause or hesitation for short unpunctuated repeats', () => {
+    expect(detect('bitcoin mining uses power and bitcoin mining heats water').cuts).toEqual([]);
+    expect(detect('the big water heater and the big water heater upstairs').cuts).toEqual([]);
+  });
+
+  it('cuts long restarts without a pause', () => {
+    expect(
+      keptText('The heater in your basement is a the heater in your basement is a miner.')
+    ).toBe('the heater in your basement is a miner.');
+  });
+});
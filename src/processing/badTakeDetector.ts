@@ -0,0 +1,259 @@
+// ============================================
+// Bad Take Detector
+// Finds filler words, stutters and retakes in a word-timed transcript
+// and turns them into cut regions for the avatar clip generator
+// ============================================
+
+import type { SilenceRegion, TimedWord } from '../types';
+import { FILLER_WORDS, isStopWord } from '../utils/keywords';
+import { normalizeToken } from '../utils/alignment';
+import { secondsToFrames } from '../utils/timing';
+
+export type BadTakeReason = 'filler' | 'stutter' | 'retake';
+
+export interface BadTakeCut {
+  reason: BadTakeReason;
+  text: string;   // The words that were removed
+  detail: string; // Why they were removed
+  startSeconds: number;
+  endSeconds: number;
+  startFrame: number;
+  endFrame: number;
+}
+
+export interface BadTakeDetection {
+  regions: SilenceRegion[]; // Cut regions (pass to processAvatarWithSilences as additionalCuts)
+  cuts: BadTakeCut[];       // Reviewable report, one entry per cut
+  keptWords: TimedWord[];   // Transcript without the removed words
+}
+
+export interface BadTakeDetectorOptions {
+  fps: number;
+  fillerWords: string[];
+  allowedRepeats: string[];       // Words that are legitimately doubled ("had had")
+  maxStutterGapSeconds: number;   // Repeats further apart than this are not stutters
+  minRetakeWords: number;         // Words a restart must repeat to count as a retake
+  maxRetakeWords: number;         // Longest abandoned attempt to look back over
+  minRestartPauseSeconds: number; // Pause before a short restart that marks it as deliberate
+  minUnpausedRetakeWords: number; // Words a restart must repeat to count without a pause
+}
+
+const DEFAULT_OPTIONS: Omit<BadTakeDetectorOptions, 'fps'> = {
+  fillerWords: FILLER_WORDS,
+  allowedRepeats: ['had', 'that', 'very', 'really', 'no', 'bye'],
+  maxStutterGapSeconds: 1.0,
+  minRetakeWords: 2,
+  maxRetakeWords: 15,
+  minRestartPauseSeconds: 0.3,
+  minUnpausedRetakeWords: 6,
+};
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+
+interface Removal {
+  reason: BadTakeReason;
+  detail: string;
+  group: number; // Words removed together share a group
+}
+
+/**
+ * Detect filler words, stutters and retakes in a transcript
+ */
+export const detectBadTakes = (
+  words: TimedWord[],
+  options: Partial<BadTakeDetectorOptions> & { fps: number }
+): BadTakeDetection => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const fillers = new Set(opts.fillerWords.map(normalizeToken));
+  const allowedRepeats = new Set(opts.allowedRepeats.map(normalizeToken));
+
+  const tokens = words.map((w) => normalizeToken(w.text));
+  const removals: (Removal | undefined)[] = words.map(() => undefined);
+  let nextGroup = 0;
+
+  const remove = (from: number, to: number, reason: BadTakeReason, detail: string) => {
+    const group = nextGroup++;
+    for (let k = from; k < to; k++) {
+      // A retake swallows fillers/stutters inside the abandoned attempt
+      if (!removals[k] || reason === 'retake') {
+        removals[k] = { reason, detail, group };
+      }
+    }
+  };
+
+  // Content words - everything except fillers and punctuation-only tokens
+  const content = tokens
+    .map((token, index) => ({ token, index }))
+    .filter(({ token }) => token.length > 0 && !fillers.has(token))
+    .map(({ index }) => index);
+
+  // Sentence number of each word - an attempt that finished its sentence wasn't abandoned
+  const sentences = [0];
+  for (let k = 1; k < words.length; k++) {
+    sentences.push(sentences[k - 1] + (SENTENCE_END.test(words[k - 1].text) ? 1 : 0));
+  }
+
+  // Retakes: the speaker abandons a phrase and starts it again
+  for (let j = 1; j < content.length; j++) {
+    let best: { i: number; length: number } | undefined;
+
+    for (let i = j - 1; i >= Math.max(0, j - opts.maxRetakeWords); i--) {
+      if (sentences[content[i]] !== sentences[content[j]]) break;
+
+      let length = 0;
+      while (
+        i + length < j &&
+        j + length < content.length &&
+        tokens[content[i + length]] === tokens[content[j + length]]
+      ) {
+        length++;
+      }
+
+      if (length >= opts.minRetakeWords && (!best || length > best.length)) {
+        best = { i, length };
+      }
+    }
+    if (!best) continue;
+
+    const repeated = content.slice(j, j + best.length).map((index) => words[index].text);
+    if (repeated.every((word) => isStopWord(word))) continue;
+
+    const restart = words[content[j]];
+    const beforeRestart = words[content[j] - 1];
+    const pause = restart.startSeconds - beforeRestart.endSeconds;
+    const hesitated = tokens
+      .slice(content[best.i], content[j])
+      .some((token) => fillers.has(token));
+
+    if (
+      pause >= opts.minRestartPauseSeconds ||
+      hesitated ||
+      best.length >= opts.minUnpausedRetakeWords
+    ) {
+      remove(
+        content[best.i],
+        content[j],
+        'retake',
+        `Restarted at "${repeated.join(' ')}"${pause > 0 ? ` after a ${pause.toFixed(1)}s pause` : ''}`
+      );
+
+      // Don't look for retakes inside the repeated phrase itself
+      j += best.length - 1;
+    }
+  }
+
+  // Stutters: a word repeated straight away, or a cut-off start of the next word
+  for (let p = 0; p + 1 < content.length; p++) {
+    const current = words[content[p]];
+    const next = words[content[p + 1]];
+    const a = tokens[content[p]];
+    const b = tokens[content[p + 1]];
+
+    if (removals[content[p]] || next.startSeconds - current.endSeconds > opts.maxStutterGapSeconds) {
+      continue;
+    }
+
+    if (a === b && !allowedRepeats.has(a)) {
+      remove(content[p], content[p] + 1, 'stutter', `Repeated "${next.text}"`);
+    } else if (
+      a.length < b.length &&
+      b.startsWith(a) &&
+      (/[-–—]$/.test(current.text) || !isStopWord(current.text))
+    ) {
+      remove(content[p], content[p] + 1, 'stutter', `False start before "${next.text}"`);
+    }
+  }
+
+  // Fillers
+  tokens.forEach((token, index) => {
+    if (fillers.has(token)) {
+      remove(index, index + 1, 'filler', `Filler word "${words[index].text}"`);
+    }
+  });
+
+  return buildDetection(words, removals, opts.fps);
+};
+
+/**
+ * Group removed words into cuts running up to the next kept word
+ */
+const buildDetection = (
+  words: TimedWord[],
+  removals: (Removal | undefined)[],
+  fps: number
+): BadTakeDetection => {
+  const cuts: BadTakeCut[] = [];
+  const keptWords: TimedWord[] = [];
+
+  let k = 0;
+  while (k < words.length) {
+    const removal = removals[k];
+    if (!removal) {
+      keptWords.push(words[k]);
+      k++;
+      continue;
+    }
+
+    // Adjacent fillers/stutters of the same kind form one cut
+    let end = k + 1;
+    while (
+      end < words.length &&
+      removals[end] &&
+      (removals[end]!.group === removal.group ||
+        (removal.reason !== 'retake' && removals[end]!.reason === removal.reason))
+    ) {
+      end++;
+    }
+
+    const startSeconds = words[k].startSeconds;
+    const endSeconds = end < words.length ? words[end].startSeconds : words[end - 1].endSeconds;
+    const removedWords = words.slice(k, end);
+
+    cuts.push({
+      reason: removal.reason,
+      text: removedWords.map((w) => w.text).join(' '),
+      detail:
+        end - k > 1 && removal.reason !== 'retake'
+          ? `${removedWords.length} ${removal.reason === 'filler' ? 'filler words' : 'stutters'}`
+          : removal.detail,
+      startSeconds,
+      endSeconds,
+      startFrame: secondsToFrames(startSeconds, fps),
+      endFrame: secondsToFrames(endSeconds, fps),
+    });
+
+    k = end;
+  }
+
+  const regions: SilenceRegion[] = cuts
+    .filter((cut) => cut.endFrame > cut.startFrame)
+    .map((cut) => ({
+      startFrame: cut.startFrame,
+      endFrame: cut.endFrame,
+      durationFrames: cut.endFrame - cut.startFrame,
+    }));
+
+  return { regions, cuts, keptWords };
+};
+
+const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, '0')}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+};
+
+/**
+ * Format cuts as a human-readable report for review
+ */
+export const formatBadTakeReport = (cuts: BadTakeCut[]): string => {
+  if (cuts.length === 0) {
+    return 'No bad takes found';
+  }
+
+  const removedSeconds = cuts.reduce((sum, cut) => sum + (cut.endSeconds - cut.startSeconds), 0);
+  const lines = cuts.map(
+    (cut) =>
+      `[${formatTime(cut.startSeconds)} - ${formatTime(cut.endSeconds)}] ${cut.reason.padEnd(7)} "${cut.text}" - ${cut.detail}`
+  );
+
+  return [...lines, `${cuts.length} cut(s), ${removedSeconds.toFixed(2)}s removed`].join('\n');
+};
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import type { Timeline, TimelineItem } from '../types';
+import { DEFAULT_PROJECT_CONFIG } from '../types';
+import {
+  cssColorToAss,
+  exportAss,
+  exportSrt,
+  exportWebVtt,
+  groupCaptionCues,
+} from './captionExport';
+import { parseCaptionFile } from './captionImport';
+
+const FPS = 30;
+
+// Words 10 frames apart, one item per sentence
+const createItem = (index: number, startFrame: number, text: string): TimelineItem => {
+  const words = text.split(' ').map((word, i) => ({
+    text: word,
+    startFrame: startFrame + i * 10,
+    endFrame: startFrame + i * 10 + 8,
+  }));
+  const endFrame = words[words.length - 1].endFrame + 2;
+  return {
+    id: `item-${index}`,
+    segmentId: `seg-${index}`,
+    startFrame,
+    endFrame,
+    durationFrames: endFrame - startFrame,
+    layout: 'A',
+    avatarClip: {
+      src: '/avatar.mp4',
+      startFrame,
+      endFrame,
+      originalStartFrame: startFrame,
+      originalEndFrame: endFrame,
+      volume: 1,
+    },
+    caption: { words, style: DEFAULT_PROJECT_CONFIG.settings.captionStyle },
+    transition: { type: 'cut', durationFrames: 0, sfxVolume: 0 },
+  };
+};
+
+const TIMELINE: Timeline = {
+  totalDurationFrames: 300,
+  items: [
+    createItem(1, 0, 'Meet the Superheat H1. It heats your water & mines bitcoin.'),
+    createItem(2, 120, 'Your heater pays for itself.'),
+  ],
+};
+
+describe('caption export', () => {
+  const cues = groupCaptionCues(TIMELINE, FPS);
+
+  it('breaks cues at sentence ends and timeline items', () => {
+    expect(cues.map((cue) => cue.lines.join(' '))).toEqual([
+      'Meet the Superheat H1.',
+      'It heats your water & mines bitcoin.',
+      'Your heater pays for itself.',
+    ]);
+    cues.slice(1).forEach((cue, i) => {
+      expect(cue.startFrame).toBeGreaterThanOrEqual(cues[i].endFrame);
+    });
+  });
+
+  it('reads back the same cues from SRT and WebVTT', () => {
+    const expected = cues.map((cue) => ({
+      startSeconds: cue.startFrame / FPS,
+      endSeconds: cue.endFrame / FPS,
+      text: cue.lines.join(' '),
+    }));
+
+    for (const file of [exportSrt(TIMELINE, FPS), exportWebVtt(TIMELINE, FPS)]) {
+      const imported = parseCaptionFile(file).cues;
+      expect(imported.map((cue) => cue.text)).toEqual(expected.map((cue) => cue.text));
+      imported.forEach((cue, i) => {
+        expect(cue.startSeconds).toBeCloseTo(expected[i].startSeconds, 3);
+        expect(cue.endSeconds).toBeCloseTo(expected[i].endSeconds, 3);
+      });
+    }
+  });
+
+  it('writes karaoke timing into ASS events', () => {
+    const ass = exportAss(TIMELINE, FPS);
+    const events = ass.split('\n').filter((line) => line.startsWith('Dialogue:'));
+
+    expect(events).toHaveLength(cues.length);
+    expect(events[0]).toMatch(/^Dialogue: 0,0:00:00\.00,0:00:01\.\d\d,/);
+    expect(events[0]).toContain('{\\k');
+  });
+
+  it('splits cues that would wrap to more lines than allowed', () => {
+    // 62 characters fit a 2 x 32 budget, but 20-character words wrap one to a line
+    const word = 'a'.repeat(20);
+    const timeline: Timeline = {
+      totalDurationFrames: 60,
+      items: [createItem(1, 0, `${word} ${word} ${word}`)],
+    };
+    const wrapped = groupCaptionCues(timeline, FPS, { maxCharsPerLine: 32, maxLinesPerCue: 2 });
+
+    expect(wrapped.map((cue) => cue.lines.length)).toEqual([2, 1]);
+  });
+
+  it('draws ASS text in the font colour with the highlight for karaoke', () => {
+    const { font, highlightColor, backgroundColor } = DEFAULT_PROJECT_CONFIG.settings.captionStyle;
+    const styleColors = (karaoke: boolean) => {
+      const style = exportAss(TIMELINE, FPS, { karaoke })
+        .split('\n')
+        .find((line) => line.startsWith('Style:'))!;
+      return style.split(',').slice(3, 7);
+    };
+
+    // Primary, Secondary, Outline (the box of BorderStyle 3), Back
+    expect(styleColors(false)).toEqual([
+      cssColorToAss(font.color),
+      cssColorToAss(font.color),
+      cssColorToAss(backgroundColor),
+      cssColorToAss(backgroundColor),
+    ]);
+    expect(styleColors(true).slice(0, 2)).toEqual([
+      cssColorToAss(font.color),
+      cssColorToAss(highlightColor),
+    ]);
+  });
+});
@@ -0,0 +1,389 @@
+// ============================================
+// Caption Export
+// Writes sidecar SRT / WebVTT / ASS captions from a built timeline
+// ============================================
+
+import type { Timeline, CaptionWord, CaptionStyle } from '../types';
+
+export interface CaptionCue {
+  startFrame: number;
+  endFrame: number;
+  lines: string[];
+  words: CaptionWord[];
+  style: CaptionStyle;
+}
+
+export interface CaptionCueOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCueDurationSeconds: number;
+}
+
+const DEFAULT_CUE_OPTIONS: CaptionCueOptions = {
+  maxCharsPerLine: 32,
+  maxLinesPerCue: 2,
+  maxCueDurationSeconds: 3.5,
+};
+
+export interface AssExportOptions extends CaptionCueOptions {
+  width: number;  // PlayResX - use the composition size so font sizes carry over
+  height: number; // PlayResY
+  karaoke: boolean; // Word-by-word highlight using \k tags
+}
+
+const DEFAULT_ASS_OPTIONS: Omit<AssExportOptions, keyof CaptionCueOptions> = {
+  width: 1080,
+  height: 1920,
+  karaoke: true,
+};
+
+const SENTENCE_END = /[.!?…]["')\]]*$/;
+const CLAUSE_END = /[,;:—–]["')\]]*$/;
+
+/**
+ * Group caption words from all timeline items into readable cues
+ * Cues break at sentence ends, at clause punctuation once a line is full,
+ * and whenever the wrapped lines or the duration would exceed the budget
+ */
+export const groupCaptionCues = (
+  timeline: Timeline,
+  fps: number,
+  options: Partial<CaptionCueOptions> = {}
+): CaptionCue[] => {
+  const { maxCharsPerLine, maxLinesPerCue, maxCueDurationSeconds } = {
+    ...DEFAULT_CUE_OPTIONS,
+    ...options,
+  };
+  const maxCueFrames = Math.round(maxCueDurationSeconds * fps);
+
+  const cues: CaptionCue[] = [];
+
+  for (const item of timeline.items) {
+    let current: CaptionWord[] = [];
+
+    const flush = () => {
+      if (current.length === 0) return;
+      cues.push({
+        startFrame: current[0].startFrame,
+        endFrame: current[current.length - 1].endFrame,
+        lines: wrapWords(current.map((w) => w.text), maxCharsPerLine),
+        words: current,
+        style: item.caption.style,
+      });
+      current = [];
+    };
+
+    for (const word of item.caption.words) {
+      if (current.length > 0) {
+        const lineCount = wrapWords([...current, word].map((w) => w.text), maxCharsPerLine).length;
+        const tooManyLines = lineCount > maxLinesPerCue;
+        const duration = word.endFrame - current[0].startFrame;
+        const overBudget = tooManyLines || duration > maxCueFrames;
+        // Let a sentence-final word squeeze in rather than leaving it orphaned
+        const closesSentence =
+          SENTENCE_END.test(word.text) && !tooManyLines && duration <= maxCueFrames * 1.25;
+        if (overBudget && !closesSentence) {
+          flush();
+        }
+      }
+
+      current.push(word);
+
+      if (
+        SENTENCE_END.test(word.text) ||
+        (CLAUSE_END.test(word.text) && textLength(current) >= maxCharsPerLine)
+      ) {
+        flush();
+      }
+    }
+
+    // Never carry a cue across timeline items
+    flush();
+  }
+
+  // Cues must not overlap - trim each to the start of the next
+  for (let i = 0; i < cues.length - 1; i++) {
+    cues[i].endFrame = Math.min(cues[i].endFrame, cues[i + 1].startFrame);
+  }
+
+  return cues.filter((cue) => cue.endFrame > cue.startFrame);
+};
+
+/**
+ * Export captions as SubRip (.srt)
+ */
+export const exportSrt = (
+  timeline: Timeline,
+  fps: number,
+  options: Partial<CaptionCueOptions> = {}
+): string => {
+  const cues = groupCaptionCues(timeline, fps, options);
+
+  return cues
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatTimestamp(cue.startFrame, fps, ',')} --> ${formatTimestamp(cue.endFrame, fps, ',')}`,
+        ...cue.lines,
+      ].join('\n')
+    )
+    .join('\n\n')
+    .concat('\n');
+};
+
+/**
+ * Export captions as WebVTT (.vtt)
+ */
+export const exportWebVtt = (
+  timeline: Timeline,
+  fps: number,
+  options: Partial<CaptionCueOptions> = {}
+): string => {
+  const cues = groupCaptionCues(timeline, fps, options);
+
+  const body = cues.map((cue) =>
+    [
+      `${formatTimestamp(cue.startFrame, fps, '.')} --> ${formatTimestamp(cue.endFrame, fps, '.')}`,
+      ...cue.lines.map(escapeVtt),
+    ].join('\n')
+  );
+
+  return ['WEBVTT', ...body].join('\n\n').concat('\n');
+};
+
+/**
+ * Export captions as Advanced SubStation Alpha (.ass)
+ * Keeps CaptionStyle font, colors and word highlight
+ */
+export const exportAss = (
+  timeline: Timeline,
+  fps: number,
+  options: Partial<AssExportOptions> = {}
+): string => {
+  const { width, height, karaoke, ...cueOptions } = { ...DEFAULT_ASS_OPTIONS, ...options };
+  const cues = groupCaptionCues(timeline, fps, cueOptions);
+
+  // One ASS style per distinct CaptionStyle
+  const styleNames = new Map<string, string>();
+  const styleLines: string[] = [];
+  for (const cue of cues) {
+    const key = JSON.stringify(cue.style);
+    if (!styleNames.has(key)) {
+      const name = `Caption${styleNames.size + 1}`;
+      styleNames.set(key, name);
+      styleLines.push(formatAssStyle(name, cue.style, height, karaoke));
+    }
+  }
+
+  const events = cues.map((cue) => {
+    const style = styleNames.get(JSON.stringify(cue.style))!;
+    const text = karaoke ? formatKaraokeText(cue, fps) : cue.lines.map(escapeAss).join('\\N');
+    return `Dialogue: 0,${formatAssTimestamp(cue.startFrame, fps)},${formatAssTimestamp(cue.endFrame, fps)},${style},,0,0,0,,${text}`;
+  });
+
+  return [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${width}`,
+    `PlayResY: ${height}`,
+    'WrapStyle: 2',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    ...styleLines,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+    ...events,
+    '',
+  ].join('\n');
+};
+
+// ----- Formatting helpers -----
+
+/**
+ * Total displayed length of a run of words (with separating spaces)
+ */
+const textLength = (words: CaptionWord[]): number => {
+  return words.reduce((sum, w) => sum + w.text.length, 0) + Math.max(words.length - 1, 0);
+};
+
+/**
+ * Greedy word wrap
+ */
+const wrapWords = (words: string[], maxCharsPerLine: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of words) {
+    if (line.length > 0 && line.length + 1 + word.length > maxCharsPerLine) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line.length > 0 ? `${line} ${word}` : word;
+    }
+  }
+  if (line.length > 0) lines.push(line);
+
+  return lines;
+};
+
+/**
+ * HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (WebVTT)
+ */
+const formatTimestamp = (frame: number, fps: number, msSeparator: ',' | '.'): string => {
+  const totalMs = Math.round((frame * 1000) / fps);
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+
+  return `${pad(h, 2)}:${pad(m, 2)}:${pad(s, 2)}${msSeparator}${pad(ms, 3)}`;
+};
+
+/**
+ * H:MM:SS.cc (ASS uses centiseconds)
+ */
+const formatAssTimestamp = (frame: number, fps: number): string => {
+  const totalCs = Math.round((frame * 100) / fps);
+  const cs = totalCs % 100;
+  const totalSeconds = Math.floor(totalCs / 100);
+  const s = totalSeconds % 60;
+  const m = Math.floor(totalSeconds / 60) % 60;
+  const h = Math.floor(totalSeconds / 3600);
+
+  return `${h}:${pad(m, 2)}:${pad(s, 2)}.${pad(cs, 2)}`;
+};
+
+const pad = (value: number, length: number): string => {
+  let result = String(value);
+  while (result.length < length) result = `0${result}`;
+  return result;
+};
+
+const escapeVtt = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const escapeAss = (text: string): string => {
+  return text.replace(/\\/g, '\\\\').replace(/\{/g, '\\{').replace(/\}/g, '\\}');
+};
+
+/**
+ * Convert a CSS color to ASS &HAABBGGRR (alpha 00 = opaque)
+ */
+export const cssColorToAss = (color: string): string => {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let alpha = 1;
+
+  const trimmed = color.trim().toLowerCase();
+  const hex = trimmed.match(/^#([0-9a-f]{3,8})$/);
+  const rgb = trimmed.match(/^rgba?\(([^)]+)\)$/);
+
+  if (trimmed === 'transparent') {
+    alpha = 0;
+  } else if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) {
+      digits = digits.split('').map((d) => d + d).join('');
+    }
+    r = parseInt(digits.slice(0, 2), 16);
+    g = parseInt(digits.slice(2, 4), 16);
+    b = parseInt(digits.slice(4, 6), 16);
+    if (digits.length === 8) alpha = parseInt(digits.slice(6, 8), 16) / 255;
+  } else if (rgb) {
+    const parts = rgb[1].split(',').map((p) => parseFloat(p.trim()));
+    [r, g, b] = parts;
+    if (parts.length > 3) alpha = parts[3];
+  }
+
+  const toHex = (n: number) => {
+    const h = Math.round(Math.min(Math.max(n, 0), 255)).toString(16).toUpperCase();
+    return h.length === 1 ? `0${h}` : h;
+  };
+
+  return `&H${toHex(255 * (1 - alpha))}${toHex(b)}${toHex(g)}${toHex(r)}`;
+};
+
+/**
+ * Build an ASS style line from a CaptionStyle
+ * Text is drawn in the font colour; karaoke events bring in the highlight
+ */
+const formatAssStyle = (
+  name: string,
+  style: CaptionStyle,
+  height: number,
+  karaoke: boolean
+): string => {
+  const { font, highlightColor, backgroundColor, position } = style;
+  const hasBox = cssColorToAss(backgroundColor).slice(2, 4) !== 'FF';
+
+  // Numpad alignment: 2 = bottom center, 5 = middle center, 8 = top center
+  const alignment = position === 'top' ? 8 : position === 'center' ? 5 : 2;
+  // Captions.tsx places bottom captions at 72% of the height
+  const marginV =
+    position === 'top' ? Math.round(height * 0.15) : position === 'center' ? 0 : Math.round(height * 0.22);
+
+  return `Style: ${[
+    name,
+    font.family,
+    font.size,
+    cssColorToAss(font.color),                              // Primary
+    cssColorToAss(karaoke ? highlightColor : font.color),   // Secondary
+    hasBox ? cssColorToAss(backgroundColor) : '&H00000000', // Outline - the box of BorderStyle 3
+    cssColorToAss(backgroundColor),
+    font.weight >= 600 ? -1 : 0,
+    0,
+    0,
+    0,
+    100,
+    100,
+    font.letterSpacing ?? 0,
+    0,
+    hasBox ? 3 : 1, // 3 = opaque box behind text
+    hasBox ? 12 : 3,
+    font.shadow && font.shadow !== 'none' ? 2 : 0,
+    alignment,
+    60,
+    60,
+    marginV,
+    1,
+  ].join(',')}`;
+};
+
+/**
+ * Cue text with per-word \k durations (centiseconds)
+ * \k turns a word from Secondary to Primary as it is spoken, so the event
+ * swaps the two - spoken words take the highlight, as in Captions.tsx
+ */
+const formatKaraokeText = (cue: CaptionCue, fps: number): string => {
+  const lineBreaks = new Set<number>();
+  let wordIndex = 0;
+  for (const line of cue.lines.slice(0, -1)) {
+    wordIndex += line.split(' ').length;
+    lineBreaks.add(wordIndex);
+  }
+
+  // Override tags take &HBBGGRR& - the style colours without their alpha
+  const color = (css: string) => `&H${cssColorToAss(css).slice(4)}&`;
+  const colors = `{\\1c${color(cue.style.highlightColor)}\\2c${color(cue.style.font.color)}}`;
+
+  let cursor = cue.startFrame;
+  const text = cue.words
+    .map((word, index) => {
+      // Include any pause before the word so highlights stay in sync
+      const endFrame = Math.min(word.endFrame, cue.endFrame);
+      const centiseconds = Math.max(Math.round(((endFrame - cursor) * 100) / fps), 0);
+      cursor = Math.max(cursor, endFrame);
+
+      const separator = index === 0 ? '' : lineBreaks.has(index) ? '\\N' : ' ';
+      return `${separator}{\\k${centiseconds}}${escapeAss(word.text)}`;
+    })
+    .join('');
+
+  return `${colors}${text}`;
+};
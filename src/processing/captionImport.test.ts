@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { parseCaptionFile } from './captionImport';
+
+describe('parseCaptionFile', () => {
+  it('strips tags and uses WebVTT inline word timings', () => {
+    const vtt = [
+      'WEBVTT',
+      'NOTE exported by a captioning service',
+      '00:00:01.000 --> 00:00:02.500\n<v Host><c.yellow>Meet</c> <00:00:01.400>the <00:00:01.700>Superheat',
+      '00:00:02.500 --> 00:00:04.000\n- It mines\n- bitcoin!',
+    ].join('\n\n');
+    const { cues, text, words } = parseCaptionFile(vtt);
+
+    expect(cues.map((cue) => cue.text)).toEqual(['Meet the Superheat', 'It mines bitcoin!']);
+    expect(text).toBe('Meet the Superheat It mines bitcoin!');
+    expect(words.slice(0, 3).map((word) => word.startSeconds)).toEqual([1, 1.4, 1.7]);
+    expect(words).toHaveLength(6);
+  });
+});
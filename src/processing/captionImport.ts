@@ -0,0 +1,216 @@
+// ============================================
+// Caption Import
+// Reads vendor SRT / WebVTT files as a timing source for the script
+// ============================================
+
+import type { TimedWord } from '../types';
+import { estimateSyllables } from '../utils/timing';
+
+export type CaptionFileFormat = 'srt' | 'vtt';
+
+export interface ImportedCue {
+  startSeconds: number;
+  endSeconds: number;
+  text: string; // Plain text, tags stripped, lines joined
+}
+
+export interface ImportedCaptions {
+  cues: ImportedCue[];
+  text: string;       // Full script text reconstructed from the cues
+  words: TimedWord[]; // Approximate word timings (pass to parseScript as wordTimestamps)
+}
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})/;
+const TIMING_LINE = new RegExp(`${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}`);
+const INLINE_TIMESTAMP = /<((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})>/g;
+
+/**
+ * Detect SRT vs WebVTT from file content
+ */
+export const detectCaptionFormat = (content: string): CaptionFileFormat => {
+  return /^\uFEFF?WEBVTT/.test(content) ? 'vtt' : 'srt';
+};
+
+/**
+ * Parse an SRT or WebVTT file into cues plus approximate word timings
+ */
+export const parseCaptionFile = (
+  content: string,
+  format: CaptionFileFormat = detectCaptionFormat(content)
+): ImportedCaptions => {
+  const blocks = content
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n{2,}/)
+    .map((block) => block.trim())
+    .filter((block) => block.length > 0);
+
+  const rawCues: (ImportedCue & { words?: TimedWord[] })[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+
+    // WebVTT header and metadata blocks carry no cue text
+    if (format === 'vtt' && /^(WEBVTT|NOTE|STYLE|REGION)\b/.test(lines[0])) {
+      continue;
+    }
+
+    // Optional cue number (SRT) or identifier (WebVTT) before the timing line
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const timing = lines[timingIndex].match(TIMING_LINE)!;
+    const startSeconds = timestampToSeconds(timing.slice(1, 5));
+    const endSeconds = timestampToSeconds(timing.slice(5, 9));
+    const rawText = lines.slice(timingIndex + 1).join('\n');
+
+    const text = cleanCueText(rawText);
+    if (text.length === 0 || endSeconds <= startSeconds) continue;
+
+    rawCues.push({
+      startSeconds,
+      endSeconds,
+      text,
+      words: parseInlineWordTimings(rawText, startSeconds, endSeconds),
+    });
+  }
+
+  const cues = resolveOverlaps(rawCues.sort((a, b) => a.startSeconds - b.startSeconds));
+
+  return {
+    cues: cues.map(({ startSeconds, endSeconds, text }) => ({ startSeconds, endSeconds, text })),
+    text: cues.map((cue) => cue.text).join(' '),
+    words: cues.flatMap((cue) => cue.words ?? distributeCueWords(cue)),
+  };
+};
+
+/**
+ * Convert regex captures [hours, minutes, seconds, fraction] to seconds
+ */
+const timestampToSeconds = (parts: (string | undefined)[]): number => {
+  const [hours, minutes, seconds, fraction] = parts;
+  return (
+    parseInt(hours ?? '0', 10) * 3600 +
+    parseInt(minutes!, 10) * 60 +
+    parseInt(seconds!, 10) +
+    parseInt(fraction!, 10) / Math.pow(10, fraction!.length)
+  );
+};
+
+/**
+ * Strip styling and join multi-line cues into a single line of text
+ */
+const cleanCueText = (text: string): string => {
+  return text
+    .replace(/\{\\[^}]*\}/g, '')   // ASS override tags some SRT files carry, e.g. {\an8}
+    .replace(/<[^>]+>/g, '')       // <i>, <b>, <font>, <c.class>, <v Speaker>, inline timestamps
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .split('\n')
+    .map((line) => line.replace(/^\s*-\s+/, '').trim()) // dialogue dashes
+    .filter((line) => line.length > 0)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Use WebVTT inline timestamps (karaoke-style cues) when present
+ * e.g. "<00:00:01.000>Meet <00:00:01.300>the <00:00:01.450>Superheat"
+ */
+const parseInlineWordTimings = (
+  rawText: string,
+  cueStart: number,
+  cueEnd: number
+): TimedWord[] | undefined => {
+  if (!INLINE_TIMESTAMP.test(rawText)) return undefined;
+  INLINE_TIMESTAMP.lastIndex = 0;
+
+  // Split into [text, timestamp, text, timestamp, text...]
+  const parts = rawText.split(INLINE_TIMESTAMP);
+  const words: TimedWord[] = [];
+  let time = cueStart;
+
+  for (let i = 0; i < parts.length; i += 2) {
+    if (i > 0) {
+      time = timestampToSeconds(parts[i - 1].match(TIMESTAMP)!.slice(1, 5));
+    }
+    const chunkWords = cleanCueText(parts[i]).split(' ').filter((w) => w.length > 0);
+    const nextTime =
+      i + 1 < parts.length ? timestampToSeconds(parts[i + 1].match(TIMESTAMP)!.slice(1, 5)) : cueEnd;
+
+    words.push(...distributeWords(chunkWords, time, nextTime));
+  }
+
+  return words;
+};
+
+/**
+ * Approximate word timings across a cue, weighted by syllables
+ */
+const distributeCueWords = (cue: ImportedCue): TimedWord[] => {
+  return distributeWords(cue.text.split(' '), cue.startSeconds, cue.endSeconds);
+};
+
+const distributeWords = (words: string[], start: number, end: number): TimedWord[] => {
+  const weights = words.map((w) => estimateSyllables(w));
+  const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+  let cursor = start;
+  return words.map((text, i) => {
+    const duration = ((end - start) * weights[i]) / totalWeight;
+    const word = { text, startSeconds: cursor, endSeconds: cursor + duration };
+    cursor += duration;
+    return word;
+  });
+};
+
+/**
+ * Resolve overlapping cues
+ * - Roll-up captions that repeat the previous cue's text keep only the new words
+ * - Identical cues are merged
+ * - Other overlaps are trimmed so each cue ends when the next begins
+ */
+const resolveOverlaps = <T extends ImportedCue & { words?: TimedWord[] }>(cues: T[]): T[] => {
+  const result: T[] = [];
+
+  for (const cue of cues) {
+    const prev = result[result.length - 1];
+
+    if (!prev || cue.startSeconds >= prev.endSeconds) {
+      result.push({ ...cue });
+      continue;
+    }
+
+    if (cue.text === prev.text) {
+      prev.endSeconds = Math.max(prev.endSeconds, cue.endSeconds);
+      continue;
+    }
+
+    if (cue.text.startsWith(`${prev.text} `) && cue.endSeconds > prev.endSeconds) {
+      const newText = cue.text.slice(prev.text.length + 1);
+      const newWordCount = newText.split(' ').length;
+      result.push({
+        ...cue,
+        startSeconds: prev.endSeconds,
+        text: newText,
+        words: cue.words?.slice(-newWordCount),
+      });
+      continue;
+    }
+
+    prev.endSeconds = Math.max(cue.startSeconds, prev.startSeconds + 0.01);
+    if (prev.words) {
+      prev.words = distributeWords(
+        prev.words.map((w) => w.text),
+        prev.startSeconds,
+        prev.endSeconds
+      );
+    }
+    result.push({ ...cue });
+  }
+
+  return result;
+};
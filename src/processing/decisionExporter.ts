@@ -0,0 +1,131 @@
+// ============================================
+// Decision Exporter
+// Converts an automatic layout plan into an editable editing-decisions file
+// ============================================
+
+import type { ScriptSegment, SfxConfig, TextOverlay } from '../types';
+import type { LayoutDecision } from './layoutPlanner';
+import { DEFAULT_TEXT_OVERLAY_STYLE } from './layoutPlanner';
+import {
+  loadEditingDecisions,
+  type EditingDecisions,
+  type OverlayDecision,
+  type SegmentDecision,
+} from './decisionLoader';
+
+export interface DecisionExportOptions {
+  videoId: string;
+  sfxSources?: Omit<SfxConfig, 'transition'>;
+  // Inverse of the loader's resolveSrc - maps a playable src back to a file path
+  toAssetPath?: (src: string) => string;
+}
+
+/**
+ * Map a src produced by staticFile() back to its path inside public/
+ * URLs are left untouched
+ */
+export const toDecisionAssetPath = (src: string): string => {
+  if (/^(https?:)?\/\//.test(src)) {
+    return src;
+  }
+
+  let path = src;
+  const staticBase = typeof window !== 'undefined' ? window.remotion_staticBase : undefined;
+  if (staticBase && path.startsWith(staticBase)) {
+    path = path.slice(staticBase.length);
+  }
+
+  return path
+    .replace(/^\/+/, '')
+    .split('/')
+    .map((part) => decodeURIComponent(part))
+    .join('/');
+};
+
+/**
+ * Export a layout plan as editing decisions
+ * Loading the result with runPipelineWithDecisions rebuilds the same timeline
+ */
+export const exportLayoutPlan = (
+  layoutDecisions: LayoutDecision[],
+  segments: ScriptSegment[],
+  options: DecisionExportOptions
+): EditingDecisions => {
+  const { videoId, sfxSources = {}, toAssetPath = toDecisionAssetPath } = options;
+
+  const segmentMap = new Map<string, ScriptSegment>();
+  for (const segment of segments) {
+    segmentMap.set(segment.id, segment);
+  }
+
+  const exported = layoutDecisions.map((decision): SegmentDecision => {
+    const segment = segmentMap.get(decision.segmentId);
+    if (!segment) {
+      throw new Error(`Layout decision references unknown segment: ${decision.segmentId}`);
+    }
+
+    const { transition, helperAsset, textOverlay } = decision;
+
+    return {
+      id: decision.segmentId,
+      layout: decision.layout,
+      asset: helperAsset ? toAssetPath(helperAsset.src) : null,
+      assetType: helperAsset?.type,
+      transition: transition.type,
+      transitionDuration: transition.durationFrames,
+      audioOffsetFrames: transition.audioOffsetFrames,
+      sfx: transition.sfx ? exportSfx(transition.sfx, sfxSources, toAssetPath) : null,
+      sfxVolume: transition.sfxVolume,
+      reasoning: decision.reasoning,
+      overlay: textOverlay ? exportOverlay(textOverlay, segment) : undefined,
+    };
+  });
+
+  // Run the result through the schema so we never write a file we can't read back
+  return loadEditingDecisions({ videoId, segments: stripUndefined(exported) });
+};
+
+/**
+ * Serialize editing decisions as pretty-printed JSON
+ */
+export const serializeEditingDecisions = (decisions: EditingDecisions): string => {
+  return `${JSON.stringify(decisions, null, 2)}\n`;
+};
+
+/**
+ * Prefer SFX keys over paths so the file stays portable between projects
+ */
+const exportSfx = (
+  sfx: string,
+  sfxSources: Omit<SfxConfig, 'transition'>,
+  toAssetPath: (src: string) => string
+): string => {
+  if (sfx === sfxSources.click) return 'click';
+  if (sfx === sfxSources.swoosh) return 'swoosh';
+  if (sfx === sfxSources.impact) return 'impact';
+  return toAssetPath(sfx);
+};
+
+/**
+ * Convert a TextOverlay to an overlay decision with segment-relative timing
+ */
+const exportOverlay = (overlay: TextOverlay, segment: ScriptSegment): OverlayDecision => {
+  const isDefaultStyle =
+    JSON.stringify(overlay.style) === JSON.stringify(DEFAULT_TEXT_OVERLAY_STYLE);
+
+  return {
+    text: overlay.primary,
+    secondary: overlay.secondary,
+    animation: overlay.animation,
+    startOffsetFrames: overlay.startFrame - segment.startFrame,
+    endOffsetFrames: overlay.endFrame - segment.startFrame,
+    style: isDefaultStyle ? undefined : overlay.style,
+  };
+};
+
+/**
+ * Drop undefined keys so the exported JSON stays minimal
+ */
+const stripUndefined = <T>(value: T): T => {
+  return JSON.parse(JSON.stringify(value));
+};
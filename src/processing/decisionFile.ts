@@ -0,0 +1,23 @@
+// ============================================
+// Decision File Loader (Node only)
+// Reads and writes editing decisions on disk - not part of the Remotion bundle
+// ============================================
+
+import { readFileSync, writeFileSync } from 'fs';
+import { loadEditingDecisions, type EditingDecisions } from './decisionLoader';
+import { serializeEditingDecisions } from './decisionExporter';
+
+/**
+ * Load and validate editing decisions from a JSON file path
+ * Throws EditingDecisionsError if the file content is invalid
+ */
+export const loadEditingDecisionsFromFile = (filePath: string): EditingDecisions => {
+  return loadEditingDecisions(readFileSync(filePath, 'utf8'));
+};
+
+/**
+ * Write editing decisions to a JSON file (e.g. an exported auto plan)
+ */
+export const writeEditingDecisionsFile = (filePath: string, decisions: EditingDecisions): void => {
+  writeFileSync(filePath, serializeEditingDecisions(decisions), 'utf8');
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EditingDecisionsError,
+  loadEditingDecisions,
+  parseEditingDecisions,
+  validateDecisions,
+} from './decisionLoader';
+
+const decision = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  layout: 'A',
+  asset: null,
+  transition: 'cut',
+  transitionDuration: 0,
+  reasoning: 'Test',
+  ...overrides,
+});
+
+const DECISIONS = {
+  videoId: 'test',
+  segments: [
+    decision('segment-1'),
+    decision('segment-2', { layout: 'B', asset: 'assets/helpers/superheat-intro.mp4' }),
+    decision('segment-3', { layout: 'C', asset: 'https://cdn.example.com/heater.mp4' }),
+  ],
+};
+
+describe('parseEditingDecisions', () => {
+  it('accepts decision objects and JSON text', () => {
+    const fromObject = parseEditingDecisions(DECISIONS);
+    const fromText = parseEditingDecisions(JSON.stringify(DECISIONS));
+
+    expect(fromObject).toEqual({ success: true, decisions: DECISIONS });
+    expect(fromText).toEqual(fromObject);
+  });
+
+  it('reports schema failures by JSON path', () => {
+    const result = parseEditingDecisions({
+      videoId: 'test',
+      segments: [
+        decision('segment-1', { layout: 'Z' }),
+        decision('segment-2', { layout: 'B' }),
+        decision('segment-3', {
+          overlay: { text: 'HOT', startOffsetFrames: 20, endOffsetFrames: 10 },
+        }),
+        { ...decision('segment-4'), transitionDuration: undefined, colour: 'red' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues).toEqual(
+      expect.arrayContaining([
+        { path: '$.segments[0].layout', message: expect.stringContaining('Unknown layout "Z"') },
+        { path: '$.segments[1].asset', message: 'Layout B requires an asset' },
+        {
+          path: '$.segments[2].overlay.endOffsetFrames',
+          message: 'endOffsetFrames must not be before startOffsetFrames',
+        },
+        { path: '$.segments[3].transitionDuration', message: 'Required' },
+        { path: '$.segments[3]', message: expect.stringContaining("'colour'") },
+      ])
+    );
+  });
+
+  it('reports duplicate segments and invalid JSON', () => {
+    const duplicate = parseEditingDecisions({
+      videoId: 'test',
+      segments: [decision('segment-1'), decision('segment-1')],
+    });
+    const invalid = parseEditingDecisions('{ "videoId": ');
+
+    expect(!duplicate.success && duplicate.issues).toEqual([
+      { path: '$.segments[1].id', message: 'Duplicate decision for segment "segment-1"' },
+    ]);
+    expect(!invalid.success && invalid.issues).toEqual([
+      { path: '$', message: expect.stringMatching(/^Invalid JSON: /) },
+    ]);
+  });
+});
+
+describe('loadEditingDecisions', () => {
+  it('loads the bundled decisions by default', () => {
+    expect(loadEditingDecisions().segments.length).toBeGreaterThan(0);
+  });
+
+  it('throws EditingDecisionsError listing every issue', () => {
+    const raw = { videoId: '', segments: [decision('segment-1', { layout: 'Z' })] };
+    const result = parseEditingDecisions(raw);
+    const issues = result.success ? [] : result.issues;
+
+    expect(issues.map((issue) => issue.path)).toEqual(['$.videoId', '$.segments[0].layout']);
+    expect(() => loadEditingDecisions(raw)).toThrow(EditingDecisionsError);
+    expect(() => loadEditingDecisions(raw)).toThrow(new EditingDecisionsError(issues).message);
+  });
+});
+
+describe('validateDecisions', () => {
+  const decisions = loadEditingDecisions(DECISIONS);
+
+  it('lists script segments without a decision and decisions for unknown segments', () => {
+    expect(validateDecisions(['segment-1', 'segment-2', 'segment-5'], decisions)).toEqual({
+      valid: false,
+      missing: ['segment-5'],
+      extra: ['segment-3'],
+      unknownAssets: [],
+    });
+    expect(validateDecisions(['segment-1', 'segment-2', 'segment-3'], decisions).valid).toBe(true);
+  });
+
+  it('lists assets outside the known asset paths', () => {
+    const segmentIds = decisions.segments.map((d) => d.id);
+    const { unknownAssets } = validateDecisions(segmentIds, decisions, [
+      'assets/helpers/superheat-intro.mp4',
+    ]);
+
+    expect(unknownAssets).toEqual(['https://cdn.example.com/heater.mp4']);
+  });
+});
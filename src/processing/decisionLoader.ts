@@ -0,0 +1,334 @@
+// ============================================
+// Decision Loader
+// Loads and validates hand-edited (or AI-edited) layout decisions
+// ============================================
+
+import { staticFile } from 'remotion';
+import { z } from 'zod';
+import type {
+  HelperAsset,
+  ScriptSegment,
+  SfxConfig,
+  TextOverlay,
+  TextOverlayStyle,
+  TransitionConfig,
+} from '../types';
+import { getLayout, getLayouts, layoutRequiresHelper } from './layoutRegistry';
+import { createHelperAssetFromPath } from './assetMatcher';
+import { findAssetMetadata, type AssetManifest } from './assetManifest';
+import { DEFAULT_TEXT_OVERLAY_STYLE } from './layoutPlanner';
+import defaultEditingDecisions from './editingDecisions.json';
+
+// ----- Schema -----
+
+// Checked against the registry at parse time, so layouts registered later are accepted
+const layoutSchema = z.string().refine((id) => getLayout(id) !== undefined, (id) => ({
+  message: `Unknown layout "${id}" - expected one of ${getLayouts().map((l) => l.id).join(', ')}`,
+}));
+
+const transitionTypeSchema = z.enum([
+  'cut',
+  'fade',
+  'slide-left',
+  'slide-right',
+  'zoom',
+  'wipe-left',
+  'wipe-right',
+  'flash',
+  'none',
+]);
+
+const textAnimationSchema = z.enum(['fade', 'scale', 'slide-up', 'slide-down', 'pop']);
+
+const fontSchema = z
+  .object({
+    family: z.string().min(1),
+    size: z.number().positive(),
+    weight: z.number().int().min(100).max(1000),
+    color: z.string().min(1),
+    shadow: z.string().optional(),
+    letterSpacing: z.number().optional(),
+  })
+  .strict();
+
+const overlayStyleSchema = z
+  .object({
+    primaryFont: fontSchema,
+    secondaryFont: fontSchema.optional(),
+    background: z.string().optional(),
+    padding: z.number().min(0),
+  })
+  .strict();
+
+const overlayDecisionSchema = z
+  .object({
+    text: z.string().min(1),
+    secondary: z.string().min(1).optional(),
+    animation: textAnimationSchema.optional(),
+    startOffsetFrames: z.number().int().min(0).optional(), // relative to segment start
+    endOffsetFrames: z.number().int().min(0).optional(),
+    style: overlayStyleSchema.optional(), // defaults to the planner's overlay style
+  })
+  .strict()
+  .refine(
+    (overlay) =>
+      overlay.startOffsetFrames === undefined ||
+      overlay.endOffsetFrames === undefined ||
+      overlay.endOffsetFrames >= overlay.startOffsetFrames,
+    { message: 'endOffsetFrames must not be before startOffsetFrames', path: ['endOffsetFrames'] }
+  );
+
+const segmentDecisionSchema = z
+  .object({
+    id: z.string().min(1),
+    layout: layoutSchema,
+    asset: z.string().min(1).nullable().optional(), // path inside public/, or a URL
+    assetType: z.enum(['video', 'image']).optional(), // inferred from extension if omitted
+    transition: transitionTypeSchema,
+    transitionDuration: z.number().int().min(0),
+    // J-cut (> 0, audio leads the picture change) or L-cut (< 0, audio trails it)
+    audioOffsetFrames: z.number().int().optional(),
+    // SFX key ('click' | 'swoosh' | 'impact'), a path inside public/, or null for silence.
+    // If omitted, non-cut transitions get the swoosh
+    sfx: z.string().min(1).nullable().optional(),
+    sfxVolume: z.number().min(0).max(1).optional(),
+    reasoning: z.string(),
+    overlay: overlayDecisionSchema.optional(),
+  })
+  .strict()
+  .refine(
+    (decision) => !layoutRequiresHelper(decision.layout) || Boolean(decision.asset),
+    (decision) => ({ message: `Layout ${decision.layout} requires an asset`, path: ['asset'] })
+  );
+
+export const editingDecisionsSchema = z
+  .object({
+    videoId: z.string().min(1),
+    segments: z.array(segmentDecisionSchema),
+  })
+  .strict()
+  .superRefine((value, ctx) => {
+    const seen = new Set<string>();
+    value.segments.forEach((segment, index) => {
+      if (seen.has(segment.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Duplicate decision for segment "${segment.id}"`,
+          path: ['segments', index, 'id'],
+        });
+      }
+      seen.add(segment.id);
+    });
+  });
+
+export type EditingDecisions = z.infer<typeof editingDecisionsSchema>;
+export type SegmentDecision = EditingDecisions['segments'][number];
+export type OverlayDecision = NonNullable<SegmentDecision['overlay']>;
+
+// ----- Validation Errors -----
+
+export interface DecisionValidationIssue {
+  path: string; // JSON path, e.g. "$.segments[2].layout"
+  message: string;
+}
+
+export type DecisionParseResult =
+  | { success: true; decisions: EditingDecisions }
+  | { success: false; issues: DecisionValidationIssue[] };
+
+/**
+ * Thrown when an editing-decisions file does not match the schema
+ */
+export class EditingDecisionsError extends Error {
+  readonly issues: DecisionValidationIssue[];
+
+  constructor(issues: DecisionValidationIssue[]) {
+    super(
+      `Invalid editing decisions:\n${issues.map((i) => `  ${i.path}: ${i.message}`).join('\n')}`
+    );
+    this.name = 'EditingDecisionsError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Format a zod issue path as a JSON path
+ * e.g. ['segments', 2, 'layout'] -> "$.segments[2].layout"
+ */
+const formatIssuePath = (path: (string | number)[]): string => {
+  return path.reduce<string>(
+    (acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : `${acc}.${part}`),
+    '$'
+  );
+};
+
+// ----- Loading -----
+
+/**
+ * Validate raw decision data without throwing
+ * Accepts a parsed object or JSON text
+ */
+export const parseEditingDecisions = (raw: unknown): DecisionParseResult => {
+  let data = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      return {
+        success: false,
+        issues: [{ path: '$', message: `Invalid JSON: ${(err as Error).message}` }],
+      };
+    }
+  }
+
+  const result = editingDecisionsSchema.safeParse(data);
+  if (result.success) {
+    return { success: true, decisions: result.data };
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({
+      path: formatIssuePath(issue.path),
+      message: issue.message,
+    })),
+  };
+};
+
+/**
+ * Load editing decisions from an object or JSON text
+ * Defaults to the bundled editingDecisions.json
+ * Throws EditingDecisionsError if the data is invalid
+ */
+export const loadEditingDecisions = (
+  source: unknown = defaultEditingDecisions
+): EditingDecisions => {
+  const result = parseEditingDecisions(source);
+  if (!result.success) {
+    throw new EditingDecisionsError(result.issues);
+  }
+  return result.decisions;
+};
+
+/**
+ * Compare decisions against the parsed script's segment IDs
+ * With assetPaths (e.g. the catalog's), also lists the assets outside them
+ */
+export const validateDecisions = (
+  segmentIds: string[],
+  decisions: EditingDecisions = loadEditingDecisions(),
+  assetPaths?: string[]
+): { valid: boolean; missing: string[]; extra: string[]; unknownAssets: string[] } => {
+  const decisionIds = new Set(decisions.segments.map((d) => d.id));
+  const scriptIds = new Set(segmentIds);
+  const knownAssets = new Set(assetPaths);
+
+  const missing = segmentIds.filter((id) => !decisionIds.has(id));
+  const extra = decisions.segments.map((d) => d.id).filter((id) => !scriptIds.has(id));
+  const assets = new Set(decisions.segments.flatMap((d) => (d.asset ? [d.asset] : [])));
+  const unknownAssets = assetPaths ? [...assets].filter((asset) => !knownAssets.has(asset)) : [];
+
+  return {
+    valid: missing.length === 0,
+    missing,
+    extra,
+    unknownAssets,
+  };
+};
+
+// ----- Conversion -----
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|webp|gif|svg)$/i;
+
+/**
+ * Resolve a decision asset path to a playable src
+ * Paths are relative to public/; URLs and absolute paths are left untouched
+ */
+export const resolveDecisionAssetSrc = (assetPath: string): string => {
+  if (/^(https?:)?\/\//.test(assetPath) || assetPath.startsWith('/')) {
+    return assetPath;
+  }
+  return staticFile(assetPath);
+};
+
+/**
+ * Create a HelperAsset from a segment decision (undefined if no asset)
+ * Manifest metadata for the asset path applies, as for catalog helpers
+ */
+export const createHelperAssetFromDecision = (
+  decision: SegmentDecision,
+  resolveSrc: (assetPath: string) => string = resolveDecisionAssetSrc,
+  manifest?: AssetManifest
+): HelperAsset | undefined => {
+  if (!decision.asset) {
+    return undefined;
+  }
+
+  const type = decision.assetType ?? (IMAGE_EXTENSIONS.test(decision.asset) ? 'image' : 'video');
+  return createHelperAssetFromPath(
+    resolveSrc(decision.asset),
+    type,
+    findAssetMetadata(manifest, decision.asset)
+  );
+};
+
+const SFX_KEYS = ['click', 'swoosh', 'impact'] as const;
+
+/**
+ * Create a TransitionConfig from a segment decision
+ */
+export const createTransitionFromDecision = (
+  decision: SegmentDecision,
+  sfxSources: Omit<SfxConfig, 'transition'>,
+  resolveSrc: (assetPath: string) => string = resolveDecisionAssetSrc
+): TransitionConfig => {
+  const isCut = decision.transition === 'cut' || decision.transition === 'none';
+
+  let sfx: string | undefined;
+  if (decision.sfx === undefined) {
+    sfx = isCut ? undefined : sfxSources.swoosh;
+  } else if (decision.sfx !== null) {
+    const key = SFX_KEYS.find((k) => k === decision.sfx);
+    sfx = key ? sfxSources[key] : resolveSrc(decision.sfx);
+  }
+
+  return {
+    type: decision.transition,
+    durationFrames: decision.transitionDuration,
+    sfx,
+    sfxVolume: decision.sfxVolume ?? 0.3,
+    audioOffsetFrames: decision.audioOffsetFrames,
+  };
+};
+
+/**
+ * Create a TextOverlay from a segment decision (undefined if no overlay)
+ * Without explicit offsets the overlay covers the middle of the segment,
+ * matching the automatic planner
+ */
+export const createTextOverlayFromDecision = (
+  decision: SegmentDecision,
+  segment: ScriptSegment,
+  style: TextOverlayStyle = DEFAULT_TEXT_OVERLAY_STYLE
+): TextOverlay | undefined => {
+  const { overlay } = decision;
+  if (!overlay) {
+    return undefined;
+  }
+
+  const startOffset = overlay.startOffsetFrames ?? Math.round(segment.durationFrames * 0.2);
+  const endOffset = Math.min(
+    overlay.endOffsetFrames ?? Math.round(segment.durationFrames * 0.8),
+    segment.durationFrames
+  );
+
+  return {
+    primary: overlay.text,
+    secondary: overlay.secondary,
+    style: overlay.style ?? style,
+    animation: overlay.animation ?? 'scale',
+    startFrame: segment.startFrame + startOffset,
+    endFrame: segment.startFrame + endOffset,
+  };
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { Timeline, TimelineItem } from '../types';
+import { DEFAULT_PROJECT_CONFIG } from '../types';
+import { createHelperAssetFromPath } from './assetMatcher';
+import { applyPlaybackRate } from './durationFitter';
+
+const createItem = (startFrame: number, endFrame: number): TimelineItem => ({
+  id: `item-${startFrame}`,
+  segmentId: `seg-${startFrame}`,
+  startFrame,
+  endFrame,
+  durationFrames: endFrame - startFrame,
+  layout: 'B',
+  avatarClip: {
+    src: '/avatar.mp4',
+    startFrame,
+    endFrame,
+    originalStartFrame: startFrame,
+    originalEndFrame: endFrame,
+    volume: 1,
+  },
+  helperAsset: {
+    ...createHelperAssetFromPath('/helpers/mining.mp4', 'video'),
+    startFrame: 30,
+    endFrame: 30 + (endFrame - startFrame),
+  },
+  caption: { words: [], style: DEFAULT_PROJECT_CONFIG.settings.captionStyle },
+  transition: { type: 'fade', durationFrames: 12, sfxVolume: 0.5, audioOffsetFrames: -6 },
+});
+
+const TIMELINE: Timeline = {
+  totalDurationFrames: 240,
+  items: [createItem(0, 120), createItem(120, 240)],
+};
+
+describe('applyPlaybackRate', () => {
+  it('moves transitions with the output frames', () => {
+    const { items } = applyPlaybackRate(TIMELINE, 1.5);
+
+    expect(items[1]).toMatchObject({ startFrame: 80, endFrame: 160, durationFrames: 80 });
+    expect(items[1].transition).toMatchObject({ durationFrames: 8, audioOffsetFrames: -4 });
+  });
+
+  it('plays helper ranges at the new rate, so they still last their item', () => {
+    const { items } = applyPlaybackRate(TIMELINE, 1.5);
+    const helper = items[0].helperAsset!;
+
+    expect(helper).toMatchObject({ startFrame: 30, endFrame: 150, playbackRate: 1.5 });
+    expect((helper.endFrame! - helper.startFrame!) / helper.playbackRate!).toBe(
+      items[0].durationFrames
+    );
+  });
+
+  it('leaves image helpers alone', () => {
+    const image = createHelperAssetFromPath('/images/heater.png', 'image');
+    const timeline = { ...TIMELINE, items: [{ ...TIMELINE.items[0], helperAsset: image }] };
+
+    expect(applyPlaybackRate(timeline, 1.5).items[0].helperAsset).toEqual(image);
+  });
+});
@@ -0,0 +1,255 @@
+// ============================================
+// Duration Fitter
+// Fits a reel to a target length (15s/30s/60s variants) by dropping
+// low-importance segments, tightening silence cuts and speeding up playback
+// ============================================
+
+import type {
+  Timeline,
+  TimelineItem,
+  AvatarClip,
+  HelperAsset,
+  ProcessedAvatar,
+  ProjectConfig,
+  ScriptSegment,
+  ImportanceLevel,
+} from '../types';
+import {
+  processAvatarWithSilences,
+  type SilenceDetectionInput,
+  type SilenceDetectorOptions,
+} from './silenceDetector';
+import { buildTimeline, type TimelineBuildInput } from './timelineBuilder';
+import { framesToSeconds, secondsToFrames } from '../utils/timing';
+
+export type ReelDuration = '15s' | '30s' | '60s';
+
+export interface DurationFitInput extends TimelineBuildInput {
+  avatarSrc: string;
+  silenceInput?: SilenceDetectionInput;   // Enables silence tightening
+  silenceOptions?: SilenceDetectorOptions; // Options processedAvatar was made with
+}
+
+export interface DurationFitterOptions {
+  config: ProjectConfig;
+  targetSeconds: number;
+  toleranceSeconds: number;    // How far from the target still counts as a fit
+  maxPlaybackRate: number;     // Speed-up ceiling (1.1 = 10% faster)
+  silenceTightening: number[]; // Factors tried in turn on the silence threshold, cut handles and minimum clip length
+}
+
+const DEFAULT_OPTIONS: Omit<DurationFitterOptions, 'config' | 'targetSeconds'> = {
+  toleranceSeconds: 0.5,
+  maxPlaybackRate: 1.1,
+  silenceTightening: [0.75, 0.5, 0.25],
+};
+
+export interface RemovedSegment {
+  segmentId: string;
+  text: string;
+  importance: ImportanceLevel;
+  durationFrames: number; // Output frames the segment took up
+}
+
+export interface DurationFitResult {
+  timeline: Timeline;
+  processedAvatar: ProcessedAvatar; // Avatar cuts behind the timeline, after any tightening
+  removedSegments: RemovedSegment[];
+  silenceFactor: number; // Tightening factor used - 1 when silence cuts were left alone
+  playbackRate: number;
+  targetSeconds: number;
+  durationSeconds: number;
+  withinTolerance: boolean;
+}
+
+/**
+ * Target length in seconds of a reel variant
+ */
+export const parseReelDuration = (duration: ReelDuration | number): number => {
+  return typeof duration === 'number' ? duration : parseInt(duration, 10);
+};
+
+/**
+ * Fit a reel to a target length
+ * Reels that are already short enough are returned unchanged - the fitter never pads
+ */
+export const fitTimelineToDuration = (
+  input: DurationFitInput,
+  options: Partial<DurationFitterOptions> & { config: ProjectConfig; targetSeconds: number }
+): DurationFitResult => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const { config, targetSeconds } = opts;
+  const { parsedScript, layoutDecisions, avatarSrc, silenceInput, silenceOptions } = input;
+
+  const targetFrames = secondsToFrames(targetSeconds, config.fps);
+  const toleranceFrames = secondsToFrames(opts.toleranceSeconds, config.fps);
+
+  const build = (segments: ScriptSegment[], processedAvatar: ProcessedAvatar): Timeline =>
+    buildTimeline(
+      { parsedScript: { ...parsedScript, segments }, processedAvatar, layoutDecisions },
+      { config }
+    );
+  const tooLong = (timeline: Timeline) =>
+    timeline.totalDurationFrames > targetFrames + toleranceFrames;
+  const tooShort = (timeline: Timeline) =>
+    timeline.totalDurationFrames < targetFrames - toleranceFrames;
+
+  let segments = parsedScript.segments;
+  let processedAvatar = input.processedAvatar;
+  let timeline = build(segments, processedAvatar);
+  const removedSegments: RemovedSegment[] = [];
+
+  // Step 1: Drop low-importance segments, longest first, without undershooting
+  const itemDurations = new Map(timeline.items.map((item) => [item.segmentId, item.durationFrames]));
+  const candidates = segments
+    .filter((segment) => segment.importance === 'low' && itemDurations.has(segment.id))
+    .sort((a, b) => itemDurations.get(b.id)! - itemDurations.get(a.id)!);
+
+  for (const candidate of candidates) {
+    if (!tooLong(timeline)) break;
+
+    const remaining = segments.filter((segment) => segment !== candidate);
+    const shorter = build(remaining, processedAvatar);
+    if (tooShort(shorter) || shorter.items.length === 0) continue;
+
+    removedSegments.push({
+      segmentId: candidate.id,
+      text: candidate.text,
+      importance: candidate.importance,
+      durationFrames: timeline.totalDurationFrames - shorter.totalDurationFrames,
+    });
+    segments = remaining;
+    timeline = shorter;
+  }
+
+  // Step 2: Tighten silence cuts, keeping the last step that didn't undershoot
+  let silenceFactor = 1;
+  if (tooLong(timeline) && silenceInput && silenceOptions) {
+    for (const factor of opts.silenceTightening) {
+      const tightened = processAvatarWithSilences(avatarSrc, silenceInput, {
+        ...silenceOptions,
+        silenceThresholdSeconds: silenceOptions.silenceThresholdSeconds * factor,
+        minClipDurationSeconds: silenceOptions.minClipDurationSeconds * factor,
+        preRollSeconds: silenceOptions.preRollSeconds * factor,
+        postRollSeconds: silenceOptions.postRollSeconds * factor,
+      });
+      const shorter = build(segments, tightened);
+      if (tooShort(shorter)) break;
+
+      processedAvatar = tightened;
+      timeline = shorter;
+      silenceFactor = factor;
+      if (!tooLong(timeline)) break;
+    }
+  }
+
+  // Step 3: Speed up whatever is left, up to the ceiling
+  let playbackRate = 1;
+  if (tooLong(timeline)) {
+    playbackRate = Math.min(opts.maxPlaybackRate, timeline.totalDurationFrames / targetFrames);
+    timeline = applyPlaybackRate(timeline, playbackRate);
+  }
+
+  return {
+    timeline,
+    processedAvatar,
+    removedSegments,
+    silenceFactor,
+    playbackRate,
+    targetSeconds,
+    durationSeconds: framesToSeconds(timeline.totalDurationFrames, config.fps),
+    withinTolerance: !tooLong(timeline) && !tooShort(timeline),
+  };
+};
+
+/**
+ * Play the whole timeline faster (or slower) by moving every output frame
+ * Source ranges are unchanged - avatar clips and helper videos play them at the new rate
+ */
+export const applyPlaybackRate = (timeline: Timeline, playbackRate: number): Timeline => {
+  if (playbackRate === 1) return timeline;
+
+  const scale = (frame: number) => Math.round(frame / playbackRate);
+
+  const scaleClip = (clip: AvatarClip): AvatarClip => ({
+    ...clip,
+    startFrame: scale(clip.startFrame),
+    endFrame: scale(clip.endFrame),
+    playbackRate: (clip.playbackRate ?? 1) * playbackRate,
+    ...(clip.audio && {
+      audio: {
+        startFrame: scale(clip.audio.startFrame),
+        endFrame: scale(clip.audio.endFrame),
+        fadeInFrames: scale(clip.audio.fadeInFrames),
+        fadeOutFrames: scale(clip.audio.fadeOutFrames),
+      },
+    }),
+  });
+
+  // Images have no range to play
+  const scaleHelper = (asset: HelperAsset): HelperAsset =>
+    asset.type === 'video'
+      ? { ...asset, playbackRate: (asset.playbackRate ?? 1) * playbackRate }
+      : asset;
+
+  const items: TimelineItem[] = timeline.items.map((item) => {
+    const startFrame = scale(item.startFrame);
+    const endFrame = scale(item.endFrame);
+
+    return {
+      ...item,
+      startFrame,
+      endFrame,
+      durationFrames: endFrame - startFrame,
+      avatarClip: scaleClip(item.avatarClip),
+      avatarSubClips: item.avatarSubClips?.map(scaleClip),
+      helperAsset: item.helperAsset && scaleHelper(item.helperAsset),
+      textOverlay: item.textOverlay && {
+        ...item.textOverlay,
+        startFrame: scale(item.textOverlay.startFrame),
+        endFrame: scale(item.textOverlay.endFrame),
+      },
+      caption: {
+        ...item.caption,
+        words: item.caption.words.map((word) => ({
+          ...word,
+          startFrame: scale(word.startFrame),
+          endFrame: scale(word.endFrame),
+        })),
+      },
+      transition: {
+        ...item.transition,
+        durationFrames: scale(item.transition.durationFrames),
+        ...(item.transition.audioOffsetFrames !== undefined && {
+          audioOffsetFrames: scale(item.transition.audioOffsetFrames),
+        }),
+      },
+    };
+  });
+
+  return {
+    totalDurationFrames: scale(timeline.totalDurationFrames),
+    items,
+  };
+};
+
+/**
+ * Format a fit result as a human-readable report
+ */
+export const formatDurationFitReport = (result: DurationFitResult): string => {
+  const lines = [
+    `Target ${result.targetSeconds}s -> ${result.durationSeconds.toFixed(2)}s${result.withinTolerance ? '' : ' (outside tolerance)'}`,
+  ];
+
+  for (const removed of result.removedSegments) {
+    lines.push(`Removed ${removed.segmentId} (${removed.importance}, ${removed.durationFrames} frames): "${removed.text}"`);
+  }
+  if (result.silenceFactor !== 1) {
+    lines.push(`Silence cuts tightened to ${Math.round(result.silenceFactor * 100)}%`);
+  }
+  if (result.playbackRate !== 1) {
+    lines.push(`Playback sped up to ${result.playbackRate.toFixed(3)}x`);
+  }
+
+  return lines.join('\n');
+};
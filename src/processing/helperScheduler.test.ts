@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { HelperAsset, Timeline, TimelineItem } from '../types';
+import { DEFAULT_PROJECT_CONFIG } from '../types';
+import { applyMediaInfo, createHelperAssetFromPath } from './assetMatcher';
+import { scheduleHelperClips } from './helperScheduler';
+import type { MediaInfo } from './mediaProbe';
+
+const FPS = 30;
+
+const createItem = (id: string, durationFrames: number, helperAsset: HelperAsset): TimelineItem => ({
+  id,
+  segmentId: id,
+  startFrame: 0,
+  endFrame: durationFrames,
+  durationFrames,
+  layout: 'B',
+  avatarClip: {
+    src: '/avatar.mp4',
+    startFrame: 0,
+    endFrame: durationFrames,
+    originalStartFrame: 0,
+    originalEndFrame: durationFrames,
+    volume: 1,
+  },
+  helperAsset,
+  caption: { words: [], style: DEFAULT_PROJECT_CONFIG.settings.captionStyle },
+  transition: { type: 'cut', durationFrames: 0, sfxVolume: 0 },
+});
+
+const createTimeline = (...items: TimelineItem[]): Timeline => ({
+  totalDurationFrames: items.reduce((sum, item) => sum + item.durationFrames, 0),
+  items,
+});
+
+const probedVideo = (fps: number | undefined, durationSeconds = 4): HelperAsset =>
+  applyMediaInfo(
+    { ...createHelperAssetFromPath('/helpers/mining.mp4', 'video'), startFrame: 15, endFrame: 90 },
+    {
+      container: 'mp4',
+      durationSeconds,
+      ...(fps !== undefined && { fps }),
+      hasVideo: true,
+      hasAudio: false,
+    } satisfies MediaInfo,
+    FPS
+  );
+
+describe('scheduleHelperClips', () => {
+  it("reads ranges in the file's own frames", () => {
+    const schedule = (asset: HelperAsset) =>
+      scheduleHelperClips(createTimeline(createItem('a', 45, asset)), { fps: FPS }).items[0]
+        .helperAsset!;
+
+    // 45 output frames are 1.5s - 37.5 frames of a 25fps file, 90 of a 60fps one
+    expect(schedule(probedVideo(undefined))).toMatchObject({ startFrame: 15, endFrame: 60 });
+    expect(schedule(probedVideo(25))).toMatchObject({
+      startFrame: 15,
+      endFrame: 53,
+      sourceFps: 25,
+      durationFrames: 100,
+    });
+
+    const short = schedule(probedVideo(60));
+    expect(short).toMatchObject({ startFrame: 15, endFrame: 90, durationFrames: 240 });
+    expect(short.playbackRate).toBeCloseTo(75 / 90);
+  });
+
+  it('gives reuses of a video a range it has not shown yet', () => {
+    const asset = probedVideo(FPS);
+    const { items } = scheduleHelperClips(
+      createTimeline(createItem('a', 30, asset), createItem('b', 30, asset)),
+      { fps: FPS }
+    );
+
+    expect(items.map((item) => [item.helperAsset?.startFrame, item.helperAsset?.endFrame])).toEqual([
+      [15, 45],
+      [45, 75],
+    ]);
+  });
+
+  it('stretches, then freezes, a video shorter than its item', () => {
+    const asset = probedVideo(FPS);
+    const { items } = scheduleHelperClips(
+      createTimeline(createItem('a', 90, asset), createItem('b', 200, asset)),
+      { fps: FPS }
+    );
+
+    expect(items[0].helperAsset).toMatchObject({ startFrame: 15, endFrame: 90 });
+    expect(items[0].helperAsset?.playbackRate).toBeCloseTo(75 / 90);
+    expect(items[1].helperAsset).toMatchObject({ playbackRate: 0.8, fill: 'freeze' });
+  });
+
+  it('sizes the window by a rate already on the asset', () => {
+    const asset = { ...probedVideo(FPS, 10), endFrame: 300, playbackRate: 1.1 };
+    const [long, short] = scheduleHelperClips(
+      createTimeline(createItem('a', 100, asset), createItem('b', 200, { ...asset, endFrame: 120 })),
+      { fps: FPS }
+    ).items.map((item) => item.helperAsset!);
+
+    expect(long).toMatchObject({ startFrame: 15, playbackRate: 1.1 });
+    expect(long.endFrame! - long.startFrame!).toBeGreaterThanOrEqual(110);
+    expect(Math.floor((long.endFrame! - long.startFrame!) / long.playbackRate!)).toBe(100);
+
+    // Too short at 1.1 - the incoming rate gives way to the stretch and fill
+    expect(short).toMatchObject({ startFrame: 15, endFrame: 120, playbackRate: 0.8 });
+    expect(short.fill).toBe('freeze');
+  });
+});
@@ -0,0 +1,120 @@
+// ============================================
+// Helper Scheduler
+// Picks the part of each helper video a timeline item shows -
+// fresh ranges across reuses, stretched, looped or frozen when short
+// ============================================
+
+import type { HelperAsset, HelperClipFill, Timeline } from '../types';
+import { framesToSeconds } from '../utils/timing';
+
+export interface HelperSchedulerOptions {
+  fps: number;             // Output frame rate - item lengths are converted to the file's frames
+  minPlaybackRate: number; // Slowest rate used to stretch a short video (1 disables)
+  fill: HelperClipFill;    // Covers what's left when stretching isn't enough
+}
+
+const DEFAULT_OPTIONS: Omit<HelperSchedulerOptions, 'fps'> = {
+  minPlaybackRate: 0.8,
+  fill: 'freeze',
+};
+
+interface SourceRange {
+  startFrame: number;
+  endFrame: number;
+}
+
+const getOverlap = (a: SourceRange, b: SourceRange): number =>
+  Math.max(0, Math.min(a.endFrame, b.endFrame) - Math.max(a.startFrame, b.startFrame));
+
+/**
+ * Pick a window of the given length inside the usable range
+ * The earliest window clear of earlier uses wins, otherwise the one overlapping them least
+ */
+const pickWindow = (usable: SourceRange, length: number, used: SourceRange[]): SourceRange => {
+  const latestStart = usable.endFrame - length;
+  const starts = [
+    usable.startFrame,
+    latestStart,
+    ...used.flatMap((range) => [range.endFrame, range.startFrame - length]),
+  ]
+    .filter((start) => start >= usable.startFrame && start <= latestStart)
+    .sort((a, b) => a - b);
+
+  let best: { window: SourceRange; overlap: number } | undefined;
+  for (const start of starts) {
+    const window = { startFrame: start, endFrame: start + length };
+    const overlap = used.reduce((sum, range) => sum + getOverlap(window, range), 0);
+    if (!best || overlap < best.overlap) best = { window, overlap };
+  }
+
+  return best!.window;
+};
+
+/**
+ * Fit one helper video to an item of the given length in output frames
+ * Ranges are in the file's own frames. A rate already on the asset (e.g. from
+ * duration fitting) sizes the window, so the range still lasts the whole item at that rate
+ */
+const scheduleHelperClip = (
+  asset: HelperAsset,
+  durationFrames: number,
+  used: SourceRange[],
+  { fps, minPlaybackRate, fill }: HelperSchedulerOptions
+): HelperAsset => {
+  const { playbackRate: baseRate = 1, ...rest } = asset;
+  const startFrame = asset.startFrame ?? 0;
+  const endFrame = Math.min(asset.endFrame ?? Infinity, asset.durationFrames ?? Infinity);
+
+  // Without a known length there is no telling where the video runs out
+  if (endFrame === Infinity || endFrame <= startFrame) return asset;
+
+  const usable = { startFrame, endFrame };
+  const available = endFrame - startFrame;
+  const sourceFrames = framesToSeconds(durationFrames, fps) * (asset.sourceFps ?? fps);
+  const needed = Math.ceil(sourceFrames * baseRate);
+
+  if (available >= needed) {
+    return { ...asset, ...pickWindow(usable, needed, used) };
+  }
+
+  const stretch = available / sourceFrames;
+  if (stretch >= minPlaybackRate) {
+    return { ...rest, ...usable, playbackRate: stretch };
+  }
+
+  const playbackRate = Math.min(minPlaybackRate, 1);
+  return { ...rest, ...usable, ...(playbackRate < 1 && { playbackRate }), fill };
+};
+
+/**
+ * Choose the source range of every helper video in the timeline
+ * Reuses of a video get ranges it hasn't shown yet where it is long enough.
+ * Videos shorter than their item are slowed down to minPlaybackRate, then
+ * looped or frozen on their last frame. Videos of unknown length - no
+ * durationFrames or endFrame - are left as they are
+ */
+export const scheduleHelperClips = (
+  timeline: Timeline,
+  options: Partial<HelperSchedulerOptions> & { fps: number }
+): Timeline => {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const used = new Map<string, SourceRange[]>();
+
+  const items = timeline.items.map((item) => {
+    const asset = item.helperAsset;
+    if (asset?.type !== 'video') return item;
+
+    const ranges = used.get(asset.src) ?? [];
+    const scheduled = scheduleHelperClip(asset, item.durationFrames, ranges, opts);
+    if (scheduled.startFrame !== undefined && scheduled.endFrame !== undefined) {
+      used.set(asset.src, [
+        ...ranges,
+        { startFrame: scheduled.startFrame, endFrame: scheduled.endFrame },
+      ]);
+    }
+
+    return { ...item, helperAsset: scheduled };
+  });
+
+  return { ...timeline, items };
+};
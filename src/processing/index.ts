@@ -1,7 +1,25 @@
 // Processing pipeline barrel export
 export * from './scriptParser';
+export * from './scriptDirectives';
+export * from './transcriptParser';
 export * from './silenceDetector';
+export * from './wavSilenceDetector';
+export * from './badTakeDetector';
 export * from './assetMatcher';
+export * from './assetAssignment';
+export * from './assetManifest';
+export * from './layoutRegistry';
 export * from './layoutPlanner';
+export * from './layoutRules';
 export * from './timelineBuilder';
+export * from './durationFitter';
+export * from './helperScheduler';
+export * from './mediaProbe';
+export * from './assetCatalog';
+export * from './captionExport';
+export * from './captionImport';
 export * from './pipeline';
+export * from './decisionLoader';
+export * from './decisionExporter';
+// decisionFile.ts, assetManifestFile.ts, mediaProbeFile.ts and assetCatalogFile.ts are Node-only
+// (use fs) - import them directly
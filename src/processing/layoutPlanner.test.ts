@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import type { ScriptSegment } from '../types';
+import { planLayouts } from './layoutPlanner';
+
+const FPS = 30;
+
+const SEGMENTS: ScriptSegment[] = Array.from({ length: 12 }, (_, i) => ({
+  id: `seg-${i + 1}`,
+  text: `Sentence number ${i + 1}.`,
+  words: [],
+  startFrame: i * 60,
+  endFrame: i * 60 + 60,
+  durationFrames: 60,
+  keywords: [],
+  importance: 'medium',
+  hasKeyPhrase: false,
+}));
+
+const plan = (seed: number) =>
+  planLayouts(SEGMENTS, [], { fps: FPS, seed, sfxSources: { click: '/sfx/click.mp3' } });
+
+describe('planLayouts', () => {
+  it('makes the same transition and SFX choices for the same seed', () => {
+    expect(plan(7)).toEqual(plan(7));
+  });
+
+  it('makes different choices for a different seed', () => {
+    const transitions = (seed: number) => plan(seed).map((decision) => decision.transition);
+
+    expect(transitions(1)).not.toEqual(transitions(2));
+  });
+});
@@ -3,6 +3,7 @@
 // Decides which layout to use for each segment based on content and assets
 // ============================================
 
+import { random } from 'remotion';
 import type {
   ScriptSegment,
   HelperAsset,
@@ -13,7 +14,18 @@ import type {
   TextOverlay,
   TextOverlayStyle,
   TextAnimation,
+  ScriptDirectives,
+  Timeline,
+  CropConfig,
 } from '../types';
+import { getLayout, layoutRequiresHelper } from './layoutRegistry';
+import { findAssetByName } from './assetMatcher';
+import {
+  DEFAULT_LAYOUT_RULES,
+  evaluateLayoutRules,
+  type LayoutChoice,
+  type LayoutRule,
+} from './layoutRules';
 
 export interface LayoutDecision {
   segmentId: string;
@@ -22,44 +34,70 @@ export interface LayoutDecision {
   textOverlay?: TextOverlay;
   transition: TransitionConfig;
   reasoning: string; // For debugging/logging
+  ruleId?: string;   // Layout rule that picked the layout - unset for directives
 }
 
 export interface LayoutPlannerOptions {
   fps: number;
   transitionDurationFrames: number;
   transitionSfxProbability: number;
+  seed: number;            // Seeds transition and SFX choices - same seed, same plan
   sfxSources: {
     click?: string;
     swoosh?: string;
     impact?: string;
   };
   defaultTextOverlayStyle: TextOverlayStyle;
+  helperAssets: HelperAsset[]; // Library searched by [asset:name] script directives
+  rules: LayoutRule[];         // Checked in order for segments without a [layout:...] directive
 }
 
+/**
+ * Text overlay style used when no style is specified
+ */
+export const DEFAULT_TEXT_OVERLAY_STYLE: TextOverlayStyle = {
+  primaryFont: {
+    family: 'Inter',
+    size: 72,
+    weight: 800,
+    color: '#FFFFFF',
+    shadow: '0 4px 12px rgba(0,0,0,0.8)',
+  },
+  secondaryFont: {
+    family: 'Inter',
+    size: 36,
+    weight: 500,
+    color: '#CCCCCC',
+  },
+  padding: 24,
+};
+
 const DEFAULT_OPTIONS: Omit<LayoutPlannerOptions, 'fps'> = {
   transitionDurationFrames: 8,
   transitionSfxProbability: 0.7,
+  seed: 1,
   sfxSources: {},
-  defaultTextOverlayStyle: {
-    primaryFont: {
-      family: 'Inter',
-      size: 72,
-      weight: 800,
-      color: '#FFFFFF',
-      shadow: '0 4px 12px rgba(0,0,0,0.8)',
-    },
-    secondaryFont: {
-      family: 'Inter',
-      size: 36,
-      weight: 500,
-      color: '#CCCCCC',
-    },
-    padding: 24,
-  },
+  defaultTextOverlayStyle: DEFAULT_TEXT_OVERLAY_STYLE,
+  helperAssets: [],
+  rules: DEFAULT_LAYOUT_RULES,
+};
+
+// Deterministic 0-1 value for a named choice
+type ChoiceRandom = (choice: string) => number;
+
+/**
+ * Random choices for one segment, derived from the seed and segment ID
+ * Each choice only depends on its own key, so editing one segment
+ * doesn't reshuffle the transitions of the others
+ */
+const createSegmentRandom = (seed: number, segmentId: string): ChoiceRandom => {
+  return (choice) => random(`${seed}:${segmentId}:${choice}`);
 };
 
 /**
  * Plan layouts for all segments
+ * Layouts come from directives, then the first matching rule in options.rules.
+ * Transition and SFX choices are seeded by options.seed
  */
 export const planLayouts = (
   segments: ScriptSegment[],
@@ -79,26 +117,44 @@ export const planLayouts = (
   }
 
   const decisions: LayoutDecision[] = [];
+  const totalDurationFrames = segments.length > 0 ? segments[segments.length - 1].endFrame : 0;
   let previousLayout: LayoutType = 'A';
 
   for (let i = 0; i < segments.length; i++) {
     const segment = segments[i];
-    const assetMatch = segmentAssetMap.get(segment.id);
+    const directives = segment.directives;
+    const assetMatch = resolveDirectedAsset(segment, opts) ?? segmentAssetMap.get(segment.id);
     const isFirstSegment = i === 0;
 
     // Decide layout
-    const { layout, reasoning } = decideLayout(segment, assetMatch);
+    const { layout, reasoning, ruleId }: LayoutChoice = directives?.layout
+      ? decideDirectedLayout(directives.layout, assetMatch)
+      : evaluateLayoutRules(opts.rules, {
+          segment,
+          assetMatch,
+          index: i,
+          segmentCount: segments.length,
+          totalDurationFrames,
+          previousLayout: isFirstSegment ? undefined : previousLayout,
+        });
 
     // Decide transition from previous
-    const transition = decideTransition(
-      previousLayout,
-      layout,
-      isFirstSegment,
+    const transition = applyTransitionDirectives(
+      decideTransition(
+        previousLayout,
+        layout,
+        isFirstSegment,
+        createSegmentRandom(opts.seed, segment.id),
+        opts
+      ),
+      directives,
       opts
     );
 
     // Decide if text overlay needed
-    const textOverlay = decideTextOverlay(segment, layout, assetMatch, opts);
+    const textOverlay = directives?.overlay
+      ? createTextOverlay(segment, directives.overlay, 'pop', opts)
+      : decideTextOverlay(segment, layout, assetMatch, opts);
 
     decisions.push({
       segmentId: segment.id,
@@ -107,6 +163,7 @@ export const planLayouts = (
       textOverlay,
       transition,
       reasoning,
+      ...(ruleId && { ruleId }),
     });
 
     previousLayout = layout;
@@ -116,40 +173,71 @@ export const planLayouts = (
 };
 
 /**
- * Decide which layout to use for a segment
+ * Look up the asset named by an [asset:...] directive
  */
-const decideLayout = (
+const resolveDirectedAsset = (
   segment: ScriptSegment,
-  assetMatch?: AssetMatch
-): { layout: LayoutType; reasoning: string } => {
-  // Rule 1: If we have a matching helper video with high importance -> Layout C
-  if (assetMatch && segment.importance === 'high') {
-    return {
-      layout: 'C',
-      reasoning: `High importance segment with matched asset (${assetMatch.relevanceScore.toFixed(2)} relevance)`,
-    };
-  }
+  options: LayoutPlannerOptions
+): AssetMatch | undefined => {
+  const name = segment.directives?.asset;
+  if (!name) return undefined;
 
-  // Rule 2: If we have a matching helper asset -> Layout B
-  if (assetMatch) {
-    return {
-      layout: 'B',
-      reasoning: `Matched asset: ${assetMatch.asset.title} (${assetMatch.relevanceScore.toFixed(2)} relevance)`,
-    };
+  const asset = findAssetByName(options.helperAssets, name);
+  if (!asset) {
+    console.warn(`Script directive asset "${name}" not found for ${segment.id}`);
+    return undefined;
   }
 
-  // Rule 3: If segment has key phrase and no visual asset -> Layout A with text overlay
-  if (segment.hasKeyPhrase && !assetMatch) {
+  return { segmentId: segment.id, asset, relevanceScore: 1, matchedKeywords: [] };
+};
+
+/**
+ * Use the layout from a [layout:...] directive
+ * Layouts B and C fall back to A when there is no asset to show
+ */
+const decideDirectedLayout = (
+  layout: LayoutType,
+  assetMatch?: AssetMatch
+): LayoutChoice => {
+  if (layoutRequiresHelper(layout) && !assetMatch) {
     return {
       layout: 'A',
-      reasoning: 'Key phrase detected, will use text overlay',
+      reasoning: `Script directive layout ${layout} has no asset, using full avatar`,
     };
   }
 
-  // Default: Layout A (full avatar)
   return {
-    layout: 'A',
-    reasoning: 'Default full avatar layout',
+    layout,
+    reasoning: `Script directive: layout ${layout}${assetMatch ? ` with ${assetMatch.asset.title}` : ''}`,
+  };
+};
+
+/**
+ * Override the planned transition with [transition:...] / [sfx:...] directives
+ */
+const applyTransitionDirectives = (
+  transition: TransitionConfig,
+  directives: ScriptDirectives | undefined,
+  options: LayoutPlannerOptions
+): TransitionConfig => {
+  if (!directives?.transition && !directives?.sfx) {
+    return transition;
+  }
+
+  const type = directives.transition ?? transition.type;
+  const sfx =
+    directives.sfx === undefined
+      ? transition.sfx
+      : directives.sfx === 'none'
+        ? undefined
+        : options.sfxSources[directives.sfx];
+
+  return {
+    ...transition,
+    type,
+    durationFrames: type === 'cut' || type === 'none' ? 0 : options.transitionDurationFrames,
+    sfx,
+    sfxVolume: sfx && transition.sfxVolume === 0 ? 0.6 : transition.sfxVolume,
   };
 };
 
@@ -160,6 +248,7 @@ const decideTransition = (
   fromLayout: LayoutType,
   toLayout: LayoutType,
   isFirstSegment: boolean,
+  chance: ChoiceRandom,
   options: LayoutPlannerOptions
 ): TransitionConfig => {
   // No transition for first segment
@@ -176,18 +265,24 @@ const decideTransition = (
   // Determine transition type based on layout change
   let type: TransitionType;
   let sfxKey: keyof typeof sfxSources | undefined;
+  const fromHelper = layoutRequiresHelper(fromLayout);
+  const toHelper = layoutRequiresHelper(toLayout);
 
   if (fromLayout === toLayout && toLayout === 'A') {
     // Same layout A to A: hard cut or fade
-    type = Math.random() > 0.4 ? 'cut' : 'fade';
+    type = chance('transition') > 0.4 ? 'cut' : 'fade';
     sfxKey = 'click';
-  } else if (fromLayout === 'A' && (toLayout === 'B' || toLayout === 'C')) {
+  } else if (toLayout === 'F') {
+    // Into a text card: flash
+    type = 'flash';
+    sfxKey = 'impact';
+  } else if (!fromHelper && toHelper) {
     // Avatar to split/helper: slide or zoom
-    type = Math.random() > 0.5 ? 'slide-left' : 'zoom';
+    type = chance('transition') > 0.5 ? 'slide-left' : 'zoom';
     sfxKey = 'swoosh';
-  } else if ((fromLayout === 'B' || fromLayout === 'C') && toLayout === 'A') {
+  } else if (fromHelper && !toHelper) {
     // Helper back to avatar: slide or fade
-    type = Math.random() > 0.5 ? 'slide-right' : 'fade';
+    type = chance('transition') > 0.5 ? 'slide-right' : 'fade';
     sfxKey = 'swoosh';
   } else if (fromLayout === 'B' && toLayout === 'C') {
     // Split to full helper: zoom
@@ -204,7 +299,7 @@ const decideTransition = (
   }
 
   // Decide if SFX should play
-  const shouldPlaySfx = Math.random() < transitionSfxProbability;
+  const shouldPlaySfx = chance('sfx') < transitionSfxProbability;
   const sfx = shouldPlaySfx && sfxKey ? sfxSources[sfxKey] : undefined;
 
   return {
@@ -239,14 +334,26 @@ const decideTextOverlay = (
     return undefined;
   }
 
+  // Choose animation based on importance
+  const animation: TextAnimation = segment.importance === 'high' ? 'pop' : 'scale';
+
+  return createTextOverlay(segment, primaryText, animation, options);
+};
+
+/**
+ * Create a text overlay shown in the middle of the segment
+ */
+const createTextOverlay = (
+  segment: ScriptSegment,
+  primaryText: string,
+  animation: TextAnimation,
+  options: LayoutPlannerOptions
+): TextOverlay => {
   // Calculate overlay timing (appear in middle third of segment)
   const segmentDuration = segment.durationFrames;
   const overlayStart = Math.round(segmentDuration * 0.2);
   const overlayEnd = Math.round(segmentDuration * 0.8);
 
-  // Choose animation based on importance
-  const animation: TextAnimation = segment.importance === 'high' ? 'pop' : 'scale';
-
   return {
     primary: primaryText,
     secondary: undefined,
@@ -306,9 +413,12 @@ export const validateLayoutPlan = (
     }
   }
 
-  // Check Layout B and C have helper assets
+  // Check layouts are registered and helper layouts have helper assets
   for (const decision of decisions) {
-    if ((decision.layout === 'B' || decision.layout === 'C') && !decision.helperAsset) {
+    const layout = getLayout(decision.layout);
+    if (!layout) {
+      errors.push(`Unknown layout ${decision.layout} for segment: ${decision.segmentId}`);
+    } else if (layout.requiresHelper && !decision.helperAsset) {
       errors.push(
         `Layout ${decision.layout} requires helper asset for segment: ${decision.segmentId}`
       );
@@ -320,3 +430,52 @@ export const validateLayoutPlan = (
     errors,
   };
 };
+
+export interface PunchInOptions {
+  scale: number;                    // Zoom of punched-in clips (1.15 = 115%, 1 disables)
+  focus: Omit<CropConfig, 'scale'>; // Region kept in frame when zooming, as fractions of the avatar frame
+}
+
+const DEFAULT_PUNCH_IN_OPTIONS: PunchInOptions = {
+  scale: 1.15,
+  focus: { x: 0.3, y: 0.12, width: 0.4, height: 0.3 }, // Face of a centred talking head
+};
+
+/**
+ * Alternate between wide and punched-in framing at jump cuts
+ * A jump cut is a cut in the avatar footage without a layout change - each
+ * one toggles the zoom, so cuts read as camera changes. Layout changes reset it
+ */
+export const planPunchIns = (
+  timeline: Timeline,
+  options: Partial<PunchInOptions> = {}
+): Timeline => {
+  const { scale, focus } = { ...DEFAULT_PUNCH_IN_OPTIONS, ...options };
+  if (scale <= 1) return timeline;
+
+  const crop: CropConfig = { ...focus, scale };
+  let previous: { layout: LayoutType; originalEndFrame: number } | undefined;
+  let punchedIn = false;
+
+  const items = timeline.items.map((item) => {
+    const pieces = (item.avatarSubClips ?? [item.avatarClip]).map((clip) => {
+      // Audio-only pieces of a J/L-cut are never seen
+      if (clip.endFrame <= clip.startFrame) return clip;
+
+      if (!previous || previous.layout !== item.layout) {
+        punchedIn = false;
+      } else if (clip.originalStartFrame !== previous.originalEndFrame) {
+        punchedIn = !punchedIn;
+      }
+      previous = { layout: item.layout, originalEndFrame: clip.originalEndFrame };
+
+      return punchedIn ? { ...clip, crop } : clip;
+    });
+
+    return item.avatarSubClips
+      ? { ...item, avatarSubClips: pieces }
+      : { ...item, avatarClip: pieces[0] };
+  });
+
+  return { ...timeline, items };
+};
@@ -0,0 +1,48 @@
+// ============================================
+// Layout Registry
+// Every layout the planner, the validators and the renderer know about -
+// built-ins are registered here, custom ones with registerLayout.
+// Metadata only: components are mapped in components/Layouts/registry.ts
+// ============================================
+
+import type { LayoutConfig, LayoutType } from '../types';
+import { BUILT_IN_LAYOUTS, LAYOUT_CONFIG } from '../types';
+
+export interface LayoutDefinition extends LayoutConfig {
+  id: LayoutType; // Used in timelines, decisions and [layout:...] directives
+}
+
+const registry = new Map<string, LayoutDefinition>(
+  BUILT_IN_LAYOUTS.map((id) => [id, { id, ...LAYOUT_CONFIG[id] }])
+);
+
+/**
+ * Add a layout - e.g. a brand layout from another package
+ * Throws if the id is taken, unless replace is set to swap out the existing layout.
+ * Pair it with registerLayoutComponent to render it
+ */
+export const registerLayout = (
+  definition: LayoutDefinition,
+  options: { replace?: boolean } = {}
+): void => {
+  if (registry.has(definition.id) && !options.replace) {
+    throw new Error(`Layout "${definition.id}" is already registered - pass { replace: true }`);
+  }
+  registry.set(definition.id, definition);
+};
+
+export const getLayout = (id: LayoutType): LayoutDefinition | undefined => registry.get(id);
+
+export const getLayouts = (): LayoutDefinition[] => [...registry.values()];
+
+/**
+ * Find a layout by id, ignoring case - for hand-written ids like [layout:b]
+ */
+export const findLayout = (id: string): LayoutDefinition | undefined =>
+  registry.get(id) ?? getLayouts().find((layout) => layout.id.toLowerCase() === id.toLowerCase());
+
+/**
+ * Whether a layout needs a helper asset - unknown layouts don't
+ */
+export const layoutRequiresHelper = (id: LayoutType): boolean =>
+  getLayout(id)?.requiresHelper ?? false;
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetMatch, ScriptSegment } from '../types';
+import { createHelperAssetFromPath } from './assetMatcher';
+import { planLayouts } from './layoutPlanner';
+import {
+  DEFAULT_LAYOUT_RULES,
+  evaluateLayoutRules,
+  parseLayoutRules,
+  type LayoutRuleCondition,
+  type LayoutRuleContext,
+} from './layoutRules';
+
+const FPS = 30;
+
+const createSegment = (id: string, text: string, overrides: Partial<ScriptSegment> = {}) => {
+  const words = text.split(/\s+/).map((word, i) => ({
+    text: word,
+    startFrame: i * 10,
+    endFrame: i * 10 + 10,
+    isKeyword: false,
+  }));
+  return {
+    id,
+    text,
+    words,
+    startFrame: 0,
+    endFrame: words.length * 10,
+    durationFrames: words.length * 10,
+    keywords: [],
+    importance: 'medium',
+    hasKeyPhrase: false,
+    ...overrides,
+  } satisfies ScriptSegment;
+};
+
+const PUNCHLINE = createSegment('seg-1', 'It heats your water for free!');
+
+describe('DEFAULT_LAYOUT_RULES', () => {
+  it('only picks the SPEC layouts', () => {
+    expect(new Set(DEFAULT_LAYOUT_RULES.map((rule) => rule.layout))).toEqual(
+      new Set(['A', 'B', 'C'])
+    );
+    expect(planLayouts([PUNCHLINE], [], { fps: FPS })[0].layout).toBe('A');
+  });
+
+  it('leaves text cards to a directive or a rule of your own', () => {
+    const directed = createSegment('seg-1', PUNCHLINE.text, { directives: { layout: 'F' } });
+    expect(planLayouts([directed], [], { fps: FPS })[0].layout).toBe('F');
+
+    const rules = parseLayoutRules([
+      { id: 'punchline', when: { hasAsset: false, punchline: true }, layout: 'F' },
+      ...DEFAULT_LAYOUT_RULES,
+    ]);
+    expect(planLayouts([PUNCHLINE], [], { fps: FPS, rules })[0].layout).toBe('F');
+
+    const match = {
+      segmentId: 'seg-1',
+      asset: createHelperAssetFromPath('/helpers/heater.mp4', 'video'),
+      relevanceScore: 1,
+      matchedKeywords: ['heater'],
+    };
+    expect(planLayouts([PUNCHLINE], [match], { fps: FPS, rules })[0].layout).toBe('B');
+  });
+});
+
+describe('evaluateLayoutRules', () => {
+  const SEGMENT = createSegment('seg-2', 'The heater mines bitcoin while it warms your water');
+
+  const createMatch = (type: 'video' | 'image', relevanceScore: number): AssetMatch => ({
+    segmentId: SEGMENT.id,
+    asset: createHelperAssetFromPath(`/helpers/miner.${type === 'video' ? 'mp4' : 'png'}`, type),
+    relevanceScore,
+    matchedKeywords: ['miner'],
+  });
+
+  // Picks D when the condition holds, or falls through to A
+  const pick = (when: LayoutRuleCondition, context: Partial<LayoutRuleContext> = {}) =>
+    evaluateLayoutRules(parseLayoutRules([{ id: 'rule', when, layout: 'D' }]), {
+      segment: SEGMENT,
+      assetMatch: createMatch('video', 2),
+      index: 1,
+      segmentCount: 3,
+      totalDurationFrames: 300,
+      previousLayout: 'A',
+      ...context,
+    }).layout;
+
+  it('matches the first or last segment', () => {
+    expect(pick({ position: 'first' }, { index: 0 })).toBe('D');
+    expect(pick({ position: 'first' }, { index: 1 })).toBe('A');
+    expect(pick({ position: 'last' }, { index: 2 })).toBe('D');
+    expect(pick({ position: 'last' }, { index: 1 })).toBe('A');
+  });
+
+  it('matches the layout before the segment', () => {
+    expect(pick({ previousLayout: ['B', 'C'] }, { previousLayout: 'C' })).toBe('D');
+    expect(pick({ previousLayout: ['B', 'C'] }, { previousLayout: 'A' })).toBe('A');
+    expect(pick({ previousLayout: ['A'] }, { previousLayout: undefined })).toBe('A');
+
+    expect(pick({ notPreviousLayout: ['D'] }, { previousLayout: 'D' })).toBe('A');
+    expect(pick({ notPreviousLayout: ['D'] }, { previousLayout: 'B' })).toBe('D');
+    expect(pick({ notPreviousLayout: ['D'] }, { previousLayout: undefined })).toBe('D');
+  });
+
+  it('matches the asset type', () => {
+    expect(pick({ assetType: 'image' }, { assetMatch: createMatch('image', 2) })).toBe('D');
+    expect(pick({ assetType: 'image' }, { assetMatch: createMatch('video', 2) })).toBe('A');
+  });
+
+  it('keeps the relevance within its bounds, inclusive', () => {
+    expect(pick({ minRelevance: 2 }, { assetMatch: createMatch('video', 2) })).toBe('D');
+    expect(pick({ minRelevance: 2 }, { assetMatch: createMatch('video', 1.9) })).toBe('A');
+    expect(pick({ maxRelevance: 2 }, { assetMatch: createMatch('video', 2) })).toBe('D');
+    expect(pick({ maxRelevance: 2 }, { assetMatch: createMatch('video', 2.1) })).toBe('A');
+  });
+
+  it('fails asset conditions without an asset', () => {
+    const rules = parseLayoutRules([{ id: 'low', when: { maxRelevance: 1 }, layout: 'F' }]);
+    const context = { segment: SEGMENT, index: 1, segmentCount: 3, totalDurationFrames: 300 };
+
+    expect(evaluateLayoutRules(rules, context).layout).toBe('A');
+  });
+
+  it('records the rule that picked the layout', () => {
+    const rules = parseLayoutRules([
+      { id: 'opening', when: { position: 'first' }, layout: 'F' },
+      ...DEFAULT_LAYOUT_RULES,
+    ]);
+    const segments = [createSegment('seg-1', 'Meet the Superheat'), SEGMENT];
+    const directed = createSegment('seg-3', 'Watch this', { directives: { layout: 'F' } });
+
+    expect(
+      planLayouts([...segments, directed], [], { fps: FPS, rules }).map((d) => d.ruleId)
+    ).toEqual(['opening', 'default', undefined]);
+  });
+});
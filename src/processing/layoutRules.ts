@@ -0,0 +1,231 @@
+// ============================================
+// Layout Rules
+// Declarative editorial logic for planLayouts - rules are checked in
+// order and the first whose conditions all hold picks the layout
+// ============================================
+
+import { z } from 'zod';
+import type { AssetMatch, LayoutType, ScriptSegment } from '../types';
+import { getLayout, getLayouts, layoutRequiresHelper } from './layoutRegistry';
+import { normalizeWord } from '../utils/keywords';
+
+// ----- Schema -----
+
+const importanceSchema = z.enum(['low', 'medium', 'high']);
+
+// Checked against the registry at parse time, like decision layouts
+const layoutIdSchema = z.string().refine((id) => getLayout(id) !== undefined, (id) => ({
+  message: `Unknown layout "${id}" - expected one of ${getLayouts().map((l) => l.id).join(', ')}`,
+}));
+
+export const layoutRuleConditionSchema = z
+  .object({
+    importance: z.array(importanceSchema).min(1).optional(), // Any of these
+    keywords: z.array(z.string().min(1)).min(1).optional(),  // Segment has any of these
+    hasKeyPhrase: z.boolean().optional(),
+    punchline: z.boolean().optional(),                       // Short quoted or exclaimed line
+    hasAsset: z.boolean().optional(),                        // A helper asset matched
+    assetType: z.enum(['video', 'image']).optional(),
+    minRelevance: z.number().min(0).optional(),              // Asset match score
+    maxRelevance: z.number().min(0).optional(),
+    position: z.enum(['first', 'last']).optional(),          // First or last segment of the reel
+    minProgress: z.number().min(0).max(1).optional(),        // Segment start / reel length
+    maxProgress: z.number().min(0).max(1).optional(),
+    previousLayout: z.array(layoutIdSchema).min(1).optional(),    // Layout before is any of these
+    notPreviousLayout: z.array(layoutIdSchema).min(1).optional(), // ...or none of these
+  })
+  .strict();
+
+export const layoutRuleSchema = z
+  .object({
+    id: z.string().min(1),
+    description: z.string().optional(),
+    when: layoutRuleConditionSchema,
+    layout: layoutIdSchema,
+  })
+  .strict();
+
+export const layoutRulesSchema = z.array(layoutRuleSchema).superRefine((rules, ctx) => {
+  const seen = new Set<string>();
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Duplicate rule id "${rule.id}"`,
+        path: [index, 'id'],
+      });
+    }
+    seen.add(rule.id);
+  });
+});
+
+export type LayoutRuleCondition = z.infer<typeof layoutRuleConditionSchema>;
+export type LayoutRule = z.infer<typeof layoutRuleSchema>;
+
+/**
+ * Thrown when a layout rule set does not match the schema
+ */
+export class LayoutRulesError extends Error {
+  constructor(source: string, details: string) {
+    super(`Invalid layout rules in ${source}:\n${details}`);
+    this.name = 'LayoutRulesError';
+  }
+}
+
+/**
+ * The SPEC's decision rules
+ * They only pick A, B and C. D, E and F come from a [layout:...] directive, an edited
+ * decision file or a rule of your own, e.g. text cards for punchlines:
+ *   { id: 'punchline', when: { hasAsset: false, punchline: true }, layout: 'F' }
+ */
+export const DEFAULT_LAYOUT_RULES: LayoutRule[] = [
+  {
+    id: 'high-importance-asset',
+    description: 'High importance segment with matched asset',
+    when: { hasAsset: true, importance: ['high'] },
+    layout: 'C',
+  },
+  {
+    id: 'matched-asset',
+    description: 'Matched asset',
+    when: { hasAsset: true },
+    layout: 'B',
+  },
+  {
+    id: 'key-phrase',
+    description: 'Key phrase detected, will use text overlay',
+    when: { hasKeyPhrase: true },
+    layout: 'A',
+  },
+  {
+    id: 'default',
+    description: 'Default full avatar layout',
+    when: {},
+    layout: 'A',
+  },
+];
+
+// ----- Loading -----
+
+/**
+ * Validate a layout rule set
+ * Accepts a parsed array or JSON text; throws LayoutRulesError if invalid
+ */
+export const parseLayoutRules = (raw: unknown, source = 'layout rules'): LayoutRule[] => {
+  let data = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      data = JSON.parse(raw);
+    } catch (err) {
+      throw new LayoutRulesError(source, `  Invalid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const result = layoutRulesSchema.safeParse(data);
+  if (!result.success) {
+    throw new LayoutRulesError(
+      source,
+      result.error.issues
+        .map((issue) => `  ${['$', ...issue.path].join('.')}: ${issue.message}`)
+        .join('\n')
+    );
+  }
+  return result.data;
+};
+
+// ----- Evaluation -----
+
+export interface LayoutRuleContext {
+  segment: ScriptSegment;
+  assetMatch?: AssetMatch;
+  index: number;                // Position of the segment in the reel
+  segmentCount: number;
+  totalDurationFrames: number;
+  previousLayout?: LayoutType;  // Undefined for the first segment
+}
+
+export interface LayoutChoice {
+  layout: LayoutType;
+  reasoning: string;
+  ruleId?: string; // Rule that picked the layout
+}
+
+const PUNCHLINE_MAX_WORDS = 8;
+
+/**
+ * A short quoted or exclaimed line - worth a full-screen text card
+ */
+export const isPunchline = (segment: ScriptSegment): boolean => {
+  if (segment.words.length > PUNCHLINE_MAX_WORDS) return false;
+  return /"[^"]+"/.test(segment.text) || /!\s*$/.test(segment.text);
+};
+
+/**
+ * Whether every condition the rule sets holds - unset conditions are ignored
+ */
+const matchesCondition = (when: LayoutRuleCondition, context: LayoutRuleContext): boolean => {
+  const { segment, assetMatch, index, segmentCount, totalDurationFrames, previousLayout } = context;
+  const relevance = assetMatch?.relevanceScore ?? 0;
+  const progress = totalDurationFrames > 0 ? segment.startFrame / totalDurationFrames : 0;
+
+  if (when.importance && !when.importance.includes(segment.importance)) return false;
+  if (when.keywords) {
+    const keywords = new Set(segment.keywords.map(normalizeWord));
+    if (!when.keywords.some((keyword) => keywords.has(normalizeWord(keyword)))) return false;
+  }
+  if (when.hasKeyPhrase !== undefined && when.hasKeyPhrase !== segment.hasKeyPhrase) return false;
+  if (when.punchline !== undefined && when.punchline !== isPunchline(segment)) return false;
+
+  // Asset conditions fail without an asset
+  if (when.hasAsset !== undefined && when.hasAsset !== Boolean(assetMatch)) return false;
+  if (when.assetType && when.assetType !== assetMatch?.asset.type) return false;
+  if (when.minRelevance !== undefined && (!assetMatch || relevance < when.minRelevance)) {
+    return false;
+  }
+  if (when.maxRelevance !== undefined && (!assetMatch || relevance > when.maxRelevance)) {
+    return false;
+  }
+
+  if (when.position === 'first' && index !== 0) return false;
+  if (when.position === 'last' && index !== segmentCount - 1) return false;
+  if (when.minProgress !== undefined && progress < when.minProgress) return false;
+  if (when.maxProgress !== undefined && progress > when.maxProgress) return false;
+
+  if (when.previousLayout) {
+    if (!previousLayout || !when.previousLayout.includes(previousLayout)) return false;
+  }
+  if (when.notPreviousLayout && previousLayout && when.notPreviousLayout.includes(previousLayout)) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Pick the layout for a segment with the first rule that applies
+ * Rules whose layout needs a helper asset are skipped when none matched.
+ * Falls back to layout A when no rule applies
+ */
+export const evaluateLayoutRules = (
+  rules: LayoutRule[],
+  context: LayoutRuleContext
+): LayoutChoice => {
+  const { assetMatch } = context;
+
+  for (const rule of rules) {
+    if (layoutRequiresHelper(rule.layout) && !assetMatch) continue;
+    if (!matchesCondition(rule.when, context)) continue;
+
+    const asset = assetMatch
+      ? ` (${assetMatch.asset.title}, ${assetMatch.relevanceScore.toFixed(2)} relevance)`
+      : '';
+    return {
+      layout: rule.layout,
+      reasoning: `Rule ${rule.id}: ${rule.description ?? `layout ${rule.layout}`}${asset}`,
+      ruleId: rule.id,
+    };
+  }
+
+  return { layout: 'A', reasoning: 'No layout rule applied, using full avatar' };
+};
@@ -0,0 +1,141 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { probeMedia, probeMediaUrl } from './mediaProbe';
+
+// ----- Test files -----
+
+const uint32 = (...values: number[]): Uint8Array => {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+const box = (type: string, ...payload: Uint8Array[]): Uint8Array => {
+  const body = concat(...payload);
+  const header = uint32(8 + body.length, 0);
+  header.set(Array.from(type, (char) => char.charCodeAt(0)), 4);
+  return concat(header, body);
+};
+
+const text = (value: string): Uint8Array => new Uint8Array(Array.from(value, (c) => c.charCodeAt(0)));
+
+// Version 0 mvhd/mdhd: flags, creation, modification, timescale, duration
+const timedHeader = (type: string, timescale: number, duration: number, padding: number) =>
+  box(type, uint32(0, 0, 0, timescale, duration), new Uint8Array(padding));
+
+const videoTrack = (fps: number, frames: number, width: number, height: number) => {
+  const timescale = fps * 512;
+  return box(
+    'trak',
+    box('tkhd', new Uint8Array(76), uint32(width * 65536, height * 65536)),
+    box(
+      'mdia',
+      timedHeader('mdhd', timescale, frames * 512, 4),
+      box('hdlr', uint32(0, 0), text('vide'), new Uint8Array(12)),
+      box('minf', box('stbl', box('stts', uint32(0, 1, frames, 512))))
+    )
+  );
+};
+
+const MDAT_BYTES = 4 * 1024 * 1024;
+
+// Not faststart - moov after the media data, as most encoders write it
+const createMp4 = (): Uint8Array =>
+  concat(
+    box('ftyp', text('isom'), uint32(512), text('isom')),
+    box('mdat', new Uint8Array(MDAT_BYTES)),
+    box('moov', timedHeader('mvhd', 1000, 4000, 80), videoTrack(25, 100, 1080, 1920))
+  );
+
+// ----- Server -----
+
+let server: Server;
+let baseUrl: string;
+let served: number[] = []; // Bytes sent per request
+let supportsRange = true;
+
+const files: Record<string, Uint8Array> = { '/clip.mp4': createMp4() };
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const file = files[req.url ?? ''];
+    if (!file) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range ?? '');
+    if (!supportsRange || !range) {
+      served.push(file.length);
+      res.writeHead(200, { 'Content-Length': file.length }).end(file);
+      return;
+    }
+
+    const start = Number(range[1]);
+    const end = Math.min(range[2] ? Number(range[2]) : file.length - 1, file.length - 1);
+    if (start >= file.length) {
+      res.writeHead(416, { 'Content-Range': `bytes */${file.length}` }).end();
+      return;
+    }
+    const bytes = file.subarray(start, end + 1);
+    served.push(bytes.length);
+    res
+      .writeHead(206, { 'Content-Range': `bytes ${start}-${end}/${file.length}` })
+      .end(bytes);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  served = [];
+  supportsRange = true;
+});
+
+// ----- Tests -----
+
+describe('probeMediaUrl', () => {
+  const expected = {
+    container: 'mp4',
+    durationSeconds: 4,
+    fps: 25,
+    width: 1080,
+    height: 1920,
+    hasVideo: true,
+    hasAudio: false,
+  };
+
+  it('reads a moov after the media data without downloading it', async () => {
+    const info = await probeMediaUrl(`${baseUrl}/clip.mp4`);
+
+    expect(info).toEqual(expected);
+    expect(info).toEqual(probeMedia(files['/clip.mp4']));
+    expect(served.reduce((sum, bytes) => sum + bytes, 0)).toBeLessThan(MDAT_BYTES / 8);
+  });
+
+  it('probes the whole file when the server ignores Range', async () => {
+    supportsRange = false;
+
+    expect(await probeMediaUrl(`${baseUrl}/clip.mp4`)).toEqual(expected);
+    expect(served).toHaveLength(1);
+  });
+
+  it('reports HTTP errors', async () => {
+    await expect(probeMediaUrl(`${baseUrl}/missing.mp4`)).rejects.toThrow('HTTP 404');
+  });
+});
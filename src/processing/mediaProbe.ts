@@ -0,0 +1,437 @@
+// ============================================
+// Media Probe
+// Reads duration, frame rate, size and tracks from MP4/MOV, WAV,
+// PNG and JPEG headers - pure TypeScript, no ffprobe needed
+// ============================================
+
+export type MediaContainer = 'mp4' | 'mov' | 'wav' | 'png' | 'jpeg';
+
+export interface MediaInfo {
+  container: MediaContainer;
+  durationSeconds: number; // 0 for images
+  fps?: number;            // Video frame rate
+  width?: number;
+  height?: number;
+  hasVideo: boolean;       // True for images too
+  hasAudio: boolean;
+}
+
+// Probed media keyed by the src used in the pipeline
+export type MediaCatalog = Record<string, MediaInfo>;
+
+/**
+ * Thrown when a file is not a supported format or its header is cut short
+ */
+export class MediaProbeError extends Error {
+  constructor(source: string, details: string) {
+    super(`Cannot probe ${source}: ${details}`);
+    this.name = 'MediaProbeError';
+  }
+}
+
+const ascii = (bytes: Uint8Array, offset: number, length: number): string =>
+  String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+const toView = (bytes: Uint8Array): DataView =>
+  new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// 64-bit sizes and durations, exact up to 2^53
+const getUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+/**
+ * Recognize the container from the first bytes of a file
+ * MP4 and MOV both start with a box - 'qt  ' brands are told apart later
+ */
+export const detectMediaContainer = (bytes: Uint8Array): MediaContainer | undefined => {
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') {
+    return 'wav';
+  }
+  if (bytes.length >= 8 && ascii(bytes, 1, 3) === 'PNG' && bytes[0] === 0x89) return 'png';
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return 'jpeg';
+  }
+  if (bytes.length >= 8 && ['ftyp', 'moov', 'mdat', 'wide', 'free'].includes(ascii(bytes, 4, 4))) {
+    return 'mp4';
+  }
+  return undefined;
+};
+
+// ----- MP4 / MOV -----
+
+interface Box {
+  type: string;
+  start: number; // Offset of the payload
+  end: number;
+}
+
+/**
+ * Boxes directly inside [start, end)
+ * A box running past the data is cut off at its end, so a lone moov still parses
+ */
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Box[] => {
+  const view = toView(bytes);
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = ascii(bytes, offset + 4, 4);
+    let header = 8;
+
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = getUint64(view, offset + 8);
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset; // Runs to the end of the file
+    }
+    if (size < header) break;
+
+    boxes.push({ type, start: offset + header, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+
+  return boxes;
+};
+
+const findBox = (bytes: Uint8Array, parent: Box, path: string[]): Box | undefined => {
+  let box: Box | undefined = parent;
+  for (const type of path) {
+    box = readBoxes(bytes, box.start, box.end).find((child) => child.type === type);
+    if (!box) return undefined;
+  }
+  return box;
+};
+
+/**
+ * Timescale and duration of an mvhd or mdhd box
+ */
+const readTimedHeader = (view: DataView, box: Box): { timescale: number; duration: number } => {
+  const version = view.getUint8(box.start);
+  return version === 1
+    ? {
+        timescale: view.getUint32(box.start + 20),
+        duration: getUint64(view, box.start + 24),
+      }
+    : {
+        timescale: view.getUint32(box.start + 12),
+        duration: view.getUint32(box.start + 16),
+      };
+};
+
+interface TrackInfo {
+  handler: string;         // 'vide', 'soun', ...
+  durationSeconds: number;
+  fps?: number;            // Nominal rate, from the most common sample duration
+  width: number;
+  height: number;
+}
+
+const readTrack = (bytes: Uint8Array, trak: Box): TrackInfo | undefined => {
+  const view = toView(bytes);
+  const hdlr = findBox(bytes, trak, ['mdia', 'hdlr']);
+  const mdhd = findBox(bytes, trak, ['mdia', 'mdhd']);
+  if (!hdlr || !mdhd) return undefined;
+
+  const handler = ascii(bytes, hdlr.start + 8, 4);
+  const { timescale, duration } = readTimedHeader(view, mdhd);
+
+  // stts: (sample count, sample delta) runs
+  const stts = findBox(bytes, trak, ['mdia', 'minf', 'stbl', 'stts']);
+  let sampleTime = 0;
+  let commonRun = { count: 0, delta: 0 };
+  if (stts) {
+    const entries = view.getUint32(stts.start + 4);
+    for (let i = 0; i < entries && stts.start + 16 + i * 8 <= stts.end; i++) {
+      const count = view.getUint32(stts.start + 8 + i * 8);
+      const delta = view.getUint32(stts.start + 12 + i * 8);
+      sampleTime += count * delta;
+      if (count > commonRun.count) commonRun = { count, delta };
+    }
+  }
+
+  // tkhd ends with width and height as 16.16 fixed point
+  const tkhd = findBox(bytes, trak, ['tkhd']);
+  const width = tkhd ? view.getUint32(tkhd.end - 8) / 65536 : 0;
+  const height = tkhd ? view.getUint32(tkhd.end - 4) / 65536 : 0;
+
+  return {
+    handler,
+    durationSeconds: timescale > 0 ? (sampleTime || duration) / timescale : 0,
+    fps: commonRun.delta > 0 ? timescale / commonRun.delta : undefined,
+    width,
+    height,
+  };
+};
+
+const probeIsoMedia = (bytes: Uint8Array, source: string): MediaInfo => {
+  const view = toView(bytes);
+  const topLevel = readBoxes(bytes, 0, bytes.length);
+
+  const ftyp = topLevel.find((box) => box.type === 'ftyp');
+  const container = ftyp && ascii(bytes, ftyp.start, 4) === 'qt  ' ? 'mov' : 'mp4';
+
+  const moov = topLevel.find((box) => box.type === 'moov');
+  if (!moov) throw new MediaProbeError(source, 'no moov box');
+  const mvhd = findBox(bytes, moov, ['mvhd']);
+  if (!mvhd) throw new MediaProbeError(source, 'no mvhd box');
+
+  const tracks = readBoxes(bytes, moov.start, moov.end)
+    .filter((box) => box.type === 'trak')
+    .map((trak) => readTrack(bytes, trak))
+    .filter((track): track is TrackInfo => track !== undefined);
+  const video = tracks.find((track) => track.handler === 'vide');
+
+  // Fragmented files leave the movie duration at 0
+  const movie = readTimedHeader(view, mvhd);
+  const durationSeconds =
+    movie.duration > 0 && movie.timescale > 0
+      ? movie.duration / movie.timescale
+      : Math.max(0, ...tracks.map((track) => track.durationSeconds));
+
+  return {
+    container,
+    durationSeconds,
+    ...(video && {
+      fps: video.fps,
+      width: Math.round(video.width),
+      height: Math.round(video.height),
+    }),
+    hasVideo: video !== undefined,
+    hasAudio: tracks.some((track) => track.handler === 'soun'),
+  };
+};
+
+// ----- WAV -----
+
+const probeWav = (bytes: Uint8Array, source: string): MediaInfo => {
+  const view = toView(bytes);
+  let byteRate: number | undefined;
+  let offset = 12;
+
+  // The data chunk's size is read from its header, so its samples need not be present
+  while (offset + 8 <= bytes.length) {
+    const id = ascii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ' && offset + 20 <= bytes.length) {
+      byteRate = view.getUint32(offset + 16, true);
+    } else if (id === 'data') {
+      if (!byteRate) throw new MediaProbeError(source, 'data chunk before fmt chunk');
+      const durationSeconds = size / byteRate;
+      return { container: 'wav', durationSeconds, hasVideo: false, hasAudio: true };
+    }
+
+    offset += 8 + size + (size % 2); // Chunks are padded to even sizes
+  }
+
+  throw new MediaProbeError(source, 'no data chunk');
+};
+
+// ----- Images -----
+
+const probePng = (bytes: Uint8Array, source: string): MediaInfo => {
+  if (bytes.length < 24 || ascii(bytes, 12, 4) !== 'IHDR') {
+    throw new MediaProbeError(source, 'no IHDR chunk');
+  }
+  const view = toView(bytes);
+  return {
+    container: 'png',
+    durationSeconds: 0,
+    width: view.getUint32(16),
+    height: view.getUint32(20),
+    hasVideo: true,
+    hasAudio: false,
+  };
+};
+
+// Start-of-frame markers - C4, C8 and CC share the range but aren't frames
+const isStartOfFrame = (marker: number): boolean =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const probeJpeg = (bytes: Uint8Array, source: string): MediaInfo => {
+  const view = toView(bytes);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) throw new MediaProbeError(source, 'bad marker');
+    const marker = bytes[offset + 1];
+
+    // Fill bytes and markers without a payload
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd9)) {
+      offset += 2;
+      continue;
+    }
+
+    if (isStartOfFrame(marker) && offset + 9 <= bytes.length) {
+      return {
+        container: 'jpeg',
+        durationSeconds: 0,
+        width: view.getUint16(offset + 7),
+        height: view.getUint16(offset + 5),
+        hasVideo: true,
+        hasAudio: false,
+      };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  throw new MediaProbeError(source, 'no start of frame marker');
+};
+
+// ----- Probing -----
+
+/**
+ * Probe media from its bytes
+ * MP4/MOV only need the ftyp and moov boxes, WAV its header chunks
+ */
+export const probeMedia = (bytes: Uint8Array, source = 'media'): MediaInfo => {
+  switch (detectMediaContainer(bytes)) {
+    case 'mp4':
+    case 'mov':
+      return probeIsoMedia(bytes, source);
+    case 'wav':
+      return probeWav(bytes, source);
+    case 'png':
+      return probePng(bytes, source);
+    case 'jpeg':
+      return probeJpeg(bytes, source);
+    default:
+      throw new MediaProbeError(source, 'unsupported format');
+  }
+};
+
+// ----- URLs -----
+
+// Enough for WAV header chunks and PNG/JPEG headers ahead of the pixel data
+const URL_HEADER_BYTES = 256 * 1024;
+
+interface FetchedRange {
+  bytes: Uint8Array;
+  totalSize: number;     // Size of the whole file - Infinity if the server doesn't say
+  ignoredRange: boolean; // The server sent the whole file instead
+}
+
+/**
+ * Fetch bytes [start, start + length) of a URL, or to the end without a length
+ * Servers that ignore Range send the whole file, which is returned as is
+ */
+const fetchRange = async (url: string, start: number, length?: number): Promise<FetchedRange> => {
+  const end = length === undefined ? '' : start + length - 1;
+  const response = await fetch(url, { headers: { Range: `bytes=${start}-${end}` } });
+
+  // Asked for bytes past the end
+  if (response.status === 416) {
+    return { bytes: new Uint8Array(0), totalSize: start, ignoredRange: false };
+  }
+  if (!response.ok) {
+    throw new MediaProbeError(url, `HTTP ${response.status}`);
+  }
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (response.status !== 206) {
+    return { bytes, totalSize: bytes.length, ignoredRange: true };
+  }
+
+  const total = /\/(\d+)\s*$/.exec(response.headers.get('Content-Range') ?? '');
+  return { bytes, totalSize: total ? Number(total[1]) : Infinity, ignoredRange: false };
+};
+
+/**
+ * Join byte chunks into one buffer (e.g. the header boxes read from a file or URL)
+ */
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+/**
+ * The ftyp and moov boxes of an MP4/MOV at a URL, wherever they are in the file
+ * Reads box headers past the first bytes with small range requests, so mdat is never downloaded
+ */
+const fetchIsoHeaders = async (url: string, head: FetchedRange): Promise<Uint8Array> => {
+  const readAt = async (position: number, length?: number): Promise<Uint8Array> => {
+    if (length !== undefined && position + length <= head.bytes.length) {
+      return head.bytes.subarray(position, position + length);
+    }
+    const range = await fetchRange(url, position, length);
+    return range.ignoredRange
+      ? range.bytes.subarray(position, length === undefined ? undefined : position + length)
+      : range.bytes;
+  };
+
+  const parts: Uint8Array[] = [];
+  let position = 0;
+
+  while (position + 8 <= head.totalSize) {
+    const header = await readAt(position, 16);
+    if (header.length < 8) break;
+    const view = toView(header);
+    const type = ascii(header, 4, 4);
+    let size: number | undefined = view.getUint32(0);
+
+    if (size === 1) {
+      if (header.length < 16) break;
+      size = getUint64(view, 8);
+    }
+    if (size === 0) size = undefined; // Runs to the end of the file
+    if (size !== undefined && size < 8) break;
+
+    if (type === 'ftyp' || type === 'moov') {
+      const length = size === undefined ? undefined : Math.min(size, head.totalSize - position);
+      parts.push(await readAt(position, length));
+    }
+    if (size === undefined) break;
+    position += size;
+  }
+
+  return concatBytes(parts);
+};
+
+/**
+ * Fetch and probe a file - works in the browser with staticFile() URLs
+ * Only fetches the headers it needs, with Range requests
+ */
+export const probeMediaUrl = async (url: string): Promise<MediaInfo> => {
+  const head = await fetchRange(url, 0, URL_HEADER_BYTES);
+  if (head.ignoredRange) {
+    return probeMedia(head.bytes, url);
+  }
+
+  const container = detectMediaContainer(head.bytes);
+  if (container === 'mp4' || container === 'mov') {
+    return probeMedia(await fetchIsoHeaders(url, head), url);
+  }
+
+  // JPEG metadata can push the frame header further in
+  if (container === 'jpeg' && head.totalSize > head.bytes.length) {
+    try {
+      return probeMedia(head.bytes, url);
+    } catch (err) {
+      if (!(err instanceof MediaProbeError)) throw err;
+      return probeMedia((await fetchRange(url, 0)).bytes, url);
+    }
+  }
+  return probeMedia(head.bytes, url);
+};
+
+/**
+ * Probe several URLs into a catalog keyed by URL
+ */
+export const probeMediaUrls = async (urls: string[]): Promise<MediaCatalog> => {
+  const entries = await Promise.all(
+    urls.map(async (url) => [url, await probeMediaUrl(url)] as const)
+  );
+  return Object.fromEntries(entries);
+};
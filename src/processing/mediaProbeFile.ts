@@ -0,0 +1,85 @@
+// ============================================
+// Media Probe Loader (Node only)
+// Probes media files on disk, reading only the headers it needs -
+// not part of the Remotion bundle
+// ============================================
+
+import { closeSync, fstatSync, openSync, readSync } from 'fs';
+import {
+  concatBytes,
+  detectMediaContainer,
+  probeMedia,
+  type MediaCatalog,
+  type MediaInfo,
+} from './mediaProbe';
+
+// Enough for WAV header chunks and PNG/JPEG headers ahead of the pixel data
+const HEADER_BYTES = 256 * 1024;
+
+const readAt = (fd: number, position: number, length: number): Uint8Array => {
+  const buffer = new Uint8Array(length);
+  const read = readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, read);
+};
+
+/**
+ * The ftyp and moov boxes of an MP4/MOV, wherever they are in the file
+ * Skips mdat and other large boxes without reading them
+ */
+const readIsoHeaders = (fd: number, fileSize: number): Uint8Array => {
+  const parts: Uint8Array[] = [];
+  let position = 0;
+
+  while (position + 8 <= fileSize) {
+    const header = readAt(fd, position, 16);
+    const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+    const type = String.fromCharCode(...Array.from(header.subarray(4, 8)));
+    let size = view.getUint32(0);
+
+    if (size === 1) size = view.getUint32(8) * 2 ** 32 + view.getUint32(12);
+    if (size === 0) size = fileSize - position;
+    if (size < 8) break;
+
+    if (type === 'ftyp' || type === 'moov') {
+      parts.push(readAt(fd, position, Math.min(size, fileSize - position)));
+    }
+    position += size;
+  }
+
+  return concatBytes(parts);
+};
+
+/**
+ * Probe a media file
+ * Throws MediaProbeError for unsupported or damaged files
+ */
+export const probeMediaFile = (path: string): MediaInfo => {
+  const fd = openSync(path, 'r');
+
+  try {
+    const fileSize = fstatSync(fd).size;
+    const head = readAt(fd, 0, Math.min(HEADER_BYTES, fileSize));
+    const container = detectMediaContainer(head);
+
+    if (container === 'mp4' || container === 'mov') {
+      return probeMedia(readIsoHeaders(fd, fileSize), path);
+    }
+    // JPEG metadata can push the frame header further in
+    if (container === 'jpeg' && fileSize > head.length) {
+      return probeMedia(readAt(fd, 0, fileSize), path);
+    }
+    return probeMedia(head, path);
+  } finally {
+    closeSync(fd);
+  }
+};
+
+/**
+ * Probe several files into a catalog
+ * Keys default to the paths - pass toSrc to key by the src the pipeline uses
+ */
+export const probeMediaFiles = (
+  paths: string[],
+  toSrc: (path: string) => string = (path) => path
+): MediaCatalog =>
+  Object.fromEntries(paths.map((path) => [toSrc(path), probeMediaFile(path)]));
@@ -0,0 +1,126 @@
+import { join } from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PROJECT_CONFIG } from '../types';
+import { secondsToFrames } from '../utils/timing';
+import { ASSET_CATALOG_PATH } from './assetCatalog';
+import { loadAssetCatalogFromFile } from './assetCatalogFile';
+import { parseCaptionFile } from './captionImport';
+import { exportLayoutPlan } from './decisionExporter';
+import { createSuperheatPipeline, runPipeline, runPipelineWithDecisions } from './pipeline';
+
+const catalog = loadAssetCatalogFromFile(join(__dirname, '../../public', ASSET_CATALOG_PATH));
+
+describe('createSuperheatPipeline', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('builds a timeline from the committed asset catalog', () => {
+    const { timeline, validation } = createSuperheatPipeline(DEFAULT_PROJECT_CONFIG, catalog);
+
+    expect(timeline.items.length).toBeGreaterThan(0);
+    expect(timeline.items[0].avatarClip.src).toContain('assets/avatar/');
+    expect(validation.errors).toEqual([]);
+  });
+
+  it('asks for the indexer when the catalog has no avatar', () => {
+    const withoutAvatar = {
+      ...catalog,
+      entries: catalog.entries.filter((entry) => entry.category !== 'avatar'),
+    };
+
+    expect(() => createSuperheatPipeline(DEFAULT_PROJECT_CONFIG, withoutAvatar)).toThrow(
+      'npm run index-assets'
+    );
+  });
+});
+
+describe('runPipeline', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('keeps every helper video on screen for its whole item after speeding up', () => {
+    // Long helpers, so the scheduler picks windows rather than stretching or freezing
+    const longHelpers = {
+      ...catalog,
+      entries: catalog.entries.map((entry) =>
+        entry.category === 'helpers' ? { ...entry, durationSeconds: 60 } : entry
+      ),
+    };
+    const { timeline, durationFit } = runPipeline({
+      scriptText:
+        'Meet the Superheat, a water heater with a secret. Inside it runs a bitcoin mining ' +
+        'machine. The mining animation shows how the heat warms your shower. Your phone shows ' +
+        'the bitcoin you are earning. The Superheat intro explains the rest. It is the ' +
+        'smartest heater on the market.',
+      avatarSrc: '/avatar.mp4',
+      avatarDurationSeconds: 32,
+      assetCatalog: longHelpers,
+      targetDuration: 30,
+      sfxPaths: {},
+      config: DEFAULT_PROJECT_CONFIG,
+    });
+
+    expect(durationFit?.playbackRate).toBeGreaterThan(1);
+    const helpers = timeline.items.filter((item) => item.helperAsset?.type === 'video');
+    expect(helpers.length).toBeGreaterThan(0);
+
+    const { fps } = DEFAULT_PROJECT_CONFIG;
+    for (const { helperAsset, durationFrames } of helpers) {
+      const { startFrame = 0, endFrame, sourceFps = fps, playbackRate = 1, fill } = helperAsset!;
+      const rangeFrames = ((endFrame! - startFrame) * fps) / sourceFps;
+      expect(fill).toBeUndefined();
+      expect(Math.floor(rangeFrames / playbackRate)).toBeGreaterThanOrEqual(durationFrames);
+    }
+  });
+
+  it('rebuilds the same timeline from an exported plan', () => {
+    const input = {
+      scriptText:
+        'Meet the Superheat, a water heater with a secret. Inside it runs a bitcoin mining ' +
+        'machine. The mining animation shows how the heat warms your shower. Your phone shows ' +
+        'the bitcoin you are earning.',
+      avatarSrc: '/avatar.mp4',
+      avatarDurationSeconds: 20,
+      assetCatalog: catalog,
+      assetManifest: { assets: { 'superheat-mining-animation': { fit: 'contain', synonyms: ['hashing'] } } },
+      sfxPaths: { click: '/sfx/click.wav', swoosh: '/sfx/swoosh.wav' },
+      config: DEFAULT_PROJECT_CONFIG,
+    };
+    const auto = runPipeline(input);
+    const editingDecisions = exportLayoutPlan(auto.layoutDecisions, auto.parsedScript.segments, {
+      videoId: 'round-trip',
+      sfxSources: input.sfxPaths,
+    });
+
+    const reloaded = runPipelineWithDecisions({ ...input, editingDecisions });
+
+    expect(auto.timeline.items.some((item) => item.helperAsset?.fit === 'contain')).toBe(true);
+    expect(reloaded.timeline).toEqual(auto.timeline);
+  });
+
+  it('starts a segment at each caption cue', () => {
+    const captions = parseCaptionFile(
+      [
+        '1\n00:00:00,000 --> 00:00:02,000\nMeet the Superheat H1,',
+        '2\n00:00:02,000 --> 00:00:04,500\nunveiled at CES. It looks like a normal',
+        '3\n00:00:04,500 --> 00:00:07,000\nwater heater. But inside it mines bitcoin.',
+      ].join('\n\n')
+    );
+    const { parsedScript } = runPipeline({
+      scriptText: captions.text,
+      avatarSrc: '/avatar.mp4',
+      avatarDurationSeconds: 7,
+      wordTimestamps: captions.words,
+      segmentStartSeconds: captions.cues.map((cue) => cue.startSeconds),
+      sfxPaths: {},
+      config: DEFAULT_PROJECT_CONFIG,
+    });
+
+    expect(parsedScript.segments.map((segment) => segment.startFrame)).toEqual(
+      captions.cues.map((cue) => secondsToFrames(cue.startSeconds, DEFAULT_PROJECT_CONFIG.fps))
+    );
+  });
+});
@@ -4,31 +4,80 @@
 // ============================================
 
 import { staticFile } from 'remotion';
-import type { Timeline, ProjectConfig, HelperAsset, ProcessedAvatar } from '../types';
+import type {
+  Timeline,
+  ProjectConfig,
+  HelperAsset,
+  ProcessedAvatar,
+  TimedWord,
+  AvatarClip,
+} from '../types';
 import { parseScript, type ParsedScript } from './scriptParser';
-import { processAvatarWithoutTrimming } from './silenceDetector';
-import { matchAssetsToSegments, createHelperAssetFromPath } from './assetMatcher';
-import { planLayouts, type LayoutDecision } from './layoutPlanner';
-import { buildTimeline, getTimelineStats, validateTimeline } from './timelineBuilder';
+import {
+  processAvatarWithoutTrimming,
+  processAvatarWithSilences,
+  parseFfmpegSilenceOutput,
+  getSilenceStats,
+  type SilenceDetectionInput,
+  type SilenceDetectorOptions,
+} from './silenceDetector';
+import { detectBadTakes, formatBadTakeReport, type BadTakeDetection } from './badTakeDetector';
+import { matchAssetsToSegments, applyMediaInfo, formatMatchExplanation } from './assetMatcher';
+import { parseAssetManifest, type AssetManifest } from './assetManifest';
+import { planLayouts, planPunchIns, type LayoutDecision } from './layoutPlanner';
+import { parseLayoutRules } from './layoutRules';
+import {
+  buildTimeline,
+  getTimelineStats,
+  validateTimeline,
+  type TimelineBuildInput,
+} from './timelineBuilder';
+import {
+  fitTimelineToDuration,
+  formatDurationFitReport,
+  parseReelDuration,
+  type DurationFitResult,
+  type ReelDuration,
+} from './durationFitter';
+import { scheduleHelperClips } from './helperScheduler';
+import type { MediaCatalog } from './mediaProbe';
+import {
+  createAssetsFromCatalog,
+  getCatalogAvatar,
+  parseAssetCatalog,
+  toMediaCatalog,
+  type AssetCatalog,
+} from './assetCatalog';
 import { secondsToFrames } from '../utils/timing';
 import {
   loadEditingDecisions,
   createHelperAssetFromDecision,
+  createTextOverlayFromDecision,
+  createTransitionFromDecision,
   validateDecisions,
+  type SegmentDecision,
 } from './decisionLoader';
 
 export interface PipelineInput {
   scriptText: string;
   avatarSrc: string;
-  avatarDurationSeconds: number;
-  helperVideoPaths: string[];
-  helperImagePaths: string[];
+  avatarDurationSeconds?: number; // Overrides the probed duration of avatarSrc
+  media?: MediaCatalog; // Probed avatar and helper files by src (probeMediaFiles or probeMediaUrls)
+  wordTimestamps?: TimedWord[]; // Spoken word timings from parseWordTimestamps or parseCaptionFile
+  segmentStartSeconds?: number[]; // Start a segment at each of these times (e.g. caption cue starts) - needs wordTimestamps
+  silences?: SilenceDetectionInput | string; // Detected silences or raw ffmpeg silencedetect output - enables trimming
+  removeBadTakes?: boolean; // Cut fillers, stutters and retakes found in wordTimestamps
+  targetDuration?: ReelDuration | number; // Fit the reel to this length ('30s' or seconds)
+  assetCatalog?: unknown; // Indexed asset library - catalog object or JSON text (see indexAssetLibrary)
+  assetManifest?: unknown; // Helper asset metadata - manifest object or JSON text (see loadAssetManifestFromDirectory)
+  layoutRules?: unknown; // Rules array or JSON text - defaults to DEFAULT_LAYOUT_RULES
   sfxPaths: {
     click?: string;
     swoosh?: string;
     impact?: string;
   };
   config: ProjectConfig;
+  editingDecisions?: unknown; // Decisions object or JSON text (defaults to editingDecisions.json)
 }
 
 export interface PipelineResult {
@@ -38,18 +87,202 @@ export interface PipelineResult {
   layoutDecisions: LayoutDecision[];
   stats: ReturnType<typeof getTimelineStats>;
   validation: ReturnType<typeof validateTimeline>;
+  durationFit?: DurationFitResult; // Set when targetDuration was given
 }
 
+type ResolvedPipelineInput = PipelineInput & {
+  avatarDurationSeconds: number;
+  assetCatalog?: AssetCatalog;
+  assetManifest?: AssetManifest;
+  media: MediaCatalog;
+};
+
+/**
+ * Validate the asset catalog and manifest, merge the catalog's probed files
+ * into media and take the avatar duration from there unless the caller set it
+ */
+const resolveInput = (input: PipelineInput): ResolvedPipelineInput => {
+  const assetCatalog =
+    input.assetCatalog === undefined ? undefined : parseAssetCatalog(input.assetCatalog);
+  const media = { ...(assetCatalog && toMediaCatalog(assetCatalog)), ...input.media };
+  const avatarDurationSeconds =
+    input.avatarDurationSeconds ?? media[input.avatarSrc]?.durationSeconds;
+
+  if (avatarDurationSeconds === undefined) {
+    throw new Error(
+      `No duration for avatar ${input.avatarSrc} - run npm run index-assets, probe it, ` +
+        'or set avatarDurationSeconds'
+    );
+  }
+  const assetManifest =
+    input.assetManifest === undefined ? undefined : parseAssetManifest(input.assetManifest);
+  return { ...input, avatarDurationSeconds, assetCatalog, assetManifest, media };
+};
+
+/**
+ * Helper assets from the catalog, with keywords, probed length and manifest metadata
+ */
+const createCatalogHelperAssets = (input: ResolvedPipelineInput): HelperAsset[] => {
+  if (!input.assetCatalog) return [];
+  return createAssetsFromCatalog(input.assetCatalog, {
+    fps: input.config.fps,
+    manifest: input.assetManifest,
+  });
+};
+
+/**
+ * Silence input and detector options for trimming, if there is anything to cut
+ * Uses the project's silenceThreshold, minClipDuration and cut handle settings
+ */
+const getTrimming = (
+  input: ResolvedPipelineInput,
+  badTakes: BadTakeDetection | undefined
+): { silenceInput: SilenceDetectionInput; options: SilenceDetectorOptions } | undefined => {
+  const { avatarDurationSeconds, silences, config } = input;
+  const { fps, settings } = config;
+  const additionalCuts = badTakes?.regions ?? [];
+
+  if (silences === undefined && additionalCuts.length === 0) {
+    return undefined;
+  }
+
+  const silenceInput =
+    typeof silences === 'string'
+      ? parseFfmpegSilenceOutput(silences, avatarDurationSeconds)
+      : silences ?? { silences: [], totalDurationSeconds: avatarDurationSeconds };
+
+  return {
+    silenceInput,
+    options: {
+      fps,
+      silenceThresholdSeconds: settings.silenceThreshold,
+      minClipDurationSeconds: settings.minClipDuration,
+      preRollSeconds: settings.cutPreRoll,
+      postRollSeconds: settings.cutPostRoll,
+      crossfadeSeconds: settings.audioCrossfade,
+      additionalCuts,
+    },
+  };
+};
+
+/**
+ * Cut silences and bad takes from the avatar if given, otherwise keep it whole
+ */
+const processAvatar = (
+  input: ResolvedPipelineInput,
+  badTakes: BadTakeDetection | undefined
+): ProcessedAvatar => {
+  const { avatarSrc, avatarDurationSeconds, config } = input;
+  const { fps } = config;
+  const trimming = getTrimming(input, badTakes);
+
+  if (!trimming) {
+    const processed = processAvatarWithoutTrimming(
+      avatarSrc,
+      secondsToFrames(avatarDurationSeconds, fps)
+    );
+    console.log(`  - ${processed.clips.length} clip(s)`);
+    return processed;
+  }
+
+  const processed = processAvatarWithSilences(avatarSrc, trimming.silenceInput, trimming.options);
+
+  const silenceStats = getSilenceStats(processed, fps);
+  console.log(`  - ${processed.clips.length} clip(s), ${silenceStats.silenceCount} silence(s)`);
+  console.log(
+    `  - ${silenceStats.originalDuration} -> ${silenceStats.processedDuration} (removed ${silenceStats.removedDuration})`
+  );
+  return processed;
+};
+
+/**
+ * Record the avatar file's frame rate on every avatar clip
+ */
+const setAvatarSourceFps = (timeline: Timeline, sourceFps: number | undefined): Timeline => {
+  if (sourceFps === undefined) return timeline;
+
+  const withFps = (clip: AvatarClip): AvatarClip => ({ ...clip, sourceFps });
+  const items = timeline.items.map((item) => ({
+    ...item,
+    avatarClip: withFps(item.avatarClip),
+    ...(item.avatarSubClips && { avatarSubClips: item.avatarSubClips.map(withFps) }),
+  }));
+
+  return { ...timeline, items };
+};
+
+/**
+ * Build the timeline, fitting it to targetDuration when given, then plan
+ * punch-ins and helper video ranges
+ */
+const assembleTimeline = (
+  input: ResolvedPipelineInput,
+  buildInput: TimelineBuildInput,
+  badTakes: BadTakeDetection | undefined
+): { timeline: Timeline; durationFit?: DurationFitResult } => {
+  const { config, targetDuration } = input;
+  const punchIn = { scale: config.settings.punchInScale };
+  const helperClips = {
+    fps: config.fps,
+    minPlaybackRate: config.settings.helperMinPlaybackRate,
+    fill: config.settings.helperClipFill,
+  };
+  const avatarFps = input.media[input.avatarSrc]?.fps;
+  const finish = (timeline: Timeline) =>
+    scheduleHelperClips(
+      planPunchIns(setAvatarSourceFps(timeline, avatarFps), punchIn),
+      helperClips
+    );
+
+  if (targetDuration === undefined) {
+    return { timeline: finish(buildTimeline(buildInput, { config })) };
+  }
+
+  const trimming = getTrimming(input, badTakes);
+  const durationFit = fitTimelineToDuration(
+    {
+      ...buildInput,
+      avatarSrc: input.avatarSrc,
+      silenceInput: trimming?.silenceInput,
+      silenceOptions: trimming?.options,
+    },
+    { config, targetSeconds: parseReelDuration(targetDuration) }
+  );
+  console.log(`  - Duration fit:\n${formatDurationFitReport(durationFit).replace(/^/gm, '      ')}`);
+
+  return { timeline: finish(durationFit.timeline), durationFit };
+};
+
+/**
+ * Find bad takes in the transcript when removeBadTakes is set
+ */
+const findBadTakes = (input: PipelineInput): BadTakeDetection | undefined => {
+  if (!input.removeBadTakes || !input.wordTimestamps) {
+    return undefined;
+  }
+
+  const badTakes = detectBadTakes(input.wordTimestamps, { fps: input.config.fps });
+  console.log(`  - Bad takes:\n${formatBadTakeReport(badTakes.cuts).replace(/^/gm, '      ')}`);
+  return badTakes;
+};
+
+// "A=3, B=2, F=1" - layouts that aren't used are left out
+const formatLayoutBreakdown = (breakdown: Record<string, number>): string =>
+  Object.entries(breakdown)
+    .filter(([, count]) => count > 0)
+    .map(([layout, count]) => `${layout}=${count}`)
+    .join(', ');
+
 /**
  * Run the full processing pipeline
  */
-export const runPipeline = (input: PipelineInput): PipelineResult => {
+export const runPipeline = (pipelineInput: PipelineInput): PipelineResult => {
+  const input = resolveInput(pipelineInput);
   const {
     scriptText,
-    avatarSrc,
     avatarDurationSeconds,
-    helperVideoPaths,
-    helperImagePaths,
+    wordTimestamps,
+    segmentStartSeconds,
     sfxPaths,
     config,
   } = input;
@@ -62,40 +295,47 @@ export const runPipeline = (input: PipelineInput): PipelineResult => {
 
   // Step 1: Parse script
   console.log('\n[1/5] Parsing script...');
+  const badTakes = findBadTakes(input);
   const parsedScript = parseScript(scriptText, {
     fps,
     totalDurationFrames: avatarDurationFrames,
     minSegmentWords: 5,
     maxSegmentWords: 15, // Smaller segments for better asset matching
+    wordTimestamps: badTakes?.keptWords ?? wordTimestamps,
+    segmentStartSeconds,
   });
   console.log(`  - ${parsedScript.segments.length} segments`);
   console.log(`  - ${parsedScript.totalWords} words`);
   console.log(`  - Keywords: ${parsedScript.allKeywords.slice(0, 10).join(', ')}...`);
 
-  // Step 2: Process avatar (no silence removal for now)
+  // Step 2: Process avatar (cut silences and bad takes when given)
   console.log('\n[2/5] Processing avatar...');
-  const processedAvatar = processAvatarWithoutTrimming(avatarSrc, avatarDurationFrames);
-  console.log(`  - ${processedAvatar.clips.length} clip(s)`);
+  const processedAvatar = processAvatar(input, badTakes);
 
   // Step 3: Create and match assets
   console.log('\n[3/5] Matching assets to segments...');
-  const helperAssets: HelperAsset[] = [
-    ...helperVideoPaths.map((p) => createHelperAssetFromPath(p, 'video')),
-    ...helperImagePaths.map((p) => createHelperAssetFromPath(p, 'image')),
-  ];
+  const helperAssets = createCatalogHelperAssets(input);
   console.log(`  - ${helperAssets.length} helper assets available`);
 
   const assetMatchResult = matchAssetsToSegments(parsedScript.segments, helperAssets);
   console.log(`  - ${assetMatchResult.matches.length} matches found`);
   for (const match of assetMatchResult.matches) {
     console.log(`    • ${match.segmentId} -> ${match.asset.title} (${match.relevanceScore.toFixed(2)})`);
+    console.log(`      ${formatMatchExplanation(match)}`);
+  }
+  if (assetMatchResult.unmatchedAssets.length > 0) {
+    console.log(`  - ${assetMatchResult.unmatchedAssets.length} assets unused`);
   }
 
   // Step 4: Plan layouts
   console.log('\n[4/5] Planning layouts...');
   const layoutDecisions = planLayouts(parsedScript.segments, assetMatchResult.matches, {
     fps,
+    transitionSfxProbability: config.settings.transitionSfxProbability,
+    seed: config.settings.randomSeed,
     sfxSources: sfxPaths,
+    helperAssets,
+    ...(input.layoutRules !== undefined && { rules: parseLayoutRules(input.layoutRules) }),
   });
   for (const decision of layoutDecisions) {
     console.log(`  - ${decision.segmentId}: Layout ${decision.layout} (${decision.reasoning})`);
@@ -103,23 +343,24 @@ export const runPipeline = (input: PipelineInput): PipelineResult => {
 
   // Step 5: Build timeline
   console.log('\n[5/5] Building timeline...');
-  const timeline = buildTimeline(
+  const { timeline, durationFit } = assembleTimeline(
+    input,
     {
       parsedScript,
       processedAvatar,
       layoutDecisions,
     },
-    { config }
+    badTakes
   );
 
   // Validate and get stats
-  const validation = validateTimeline(timeline);
+  const validation = validateTimeline(timeline, { media: input.media, fps });
   const stats = getTimelineStats(timeline, fps);
 
   console.log('\n=== Pipeline Complete ===');
   console.log(`Total duration: ${stats.totalDuration}`);
   console.log(`Items: ${stats.itemCount}`);
-  console.log(`Layouts: A=${stats.layoutBreakdown.A}, B=${stats.layoutBreakdown.B}, C=${stats.layoutBreakdown.C}`);
+  console.log(`Layouts: ${formatLayoutBreakdown(stats.layoutBreakdown)}`);
   console.log(`Transitions: ${stats.transitionCount}`);
   console.log(`Caption words: ${stats.captionWordCount}`);
 
@@ -133,10 +374,11 @@ export const runPipeline = (input: PipelineInput): PipelineResult => {
   return {
     timeline,
     parsedScript,
-    processedAvatar,
+    processedAvatar: durationFit?.processedAvatar ?? processedAvatar,
     layoutDecisions,
     stats,
     validation,
+    durationFit,
   };
 };
 
@@ -144,16 +386,30 @@ export const runPipeline = (input: PipelineInput): PipelineResult => {
  * Run pipeline with JSON-based editorial decisions
  * Uses decisions from editingDecisions.json instead of algorithmic matching
  */
-export const runPipelineWithDecisions = (input: PipelineInput): PipelineResult => {
+export const runPipelineWithDecisions = (pipelineInput: PipelineInput): PipelineResult => {
+  const input = resolveInput(pipelineInput);
   const {
     scriptText,
-    avatarSrc,
     avatarDurationSeconds,
+    wordTimestamps,
+    segmentStartSeconds,
     sfxPaths,
     config,
+    editingDecisions,
   } = input;
 
   const fps = config.fps;
+  // Catalog helpers carry the same metadata the automatic pipeline matches with
+  const catalogAssets = new Map(createCatalogHelperAssets(input).map((asset) => [asset.src, asset]));
+  const createHelperAsset = (decision: SegmentDecision): HelperAsset | undefined => {
+    const asset = createHelperAssetFromDecision(decision, undefined, input.assetManifest);
+    if (!asset) return undefined;
+
+    const catalogAsset = catalogAssets.get(asset.src);
+    return catalogAsset?.type === asset.type
+      ? catalogAsset
+      : applyMediaInfo(asset, input.media[asset.src], fps);
+  };
   const avatarDurationFrames = secondsToFrames(avatarDurationSeconds, fps);
 
   console.log('=== Processing Pipeline (AI-Edited) ===');
@@ -161,34 +417,40 @@ export const runPipelineWithDecisions = (input: PipelineInput): PipelineResult =
 
   // Step 1: Parse script (still needed for timing and captions)
   console.log('\n[1/4] Parsing script...');
+  const badTakes = findBadTakes(input);
   const parsedScript = parseScript(scriptText, {
     fps,
     totalDurationFrames: avatarDurationFrames,
     minSegmentWords: 5,
     maxSegmentWords: 15,
+    wordTimestamps: badTakes?.keptWords ?? wordTimestamps,
+    segmentStartSeconds,
   });
   console.log(`  - ${parsedScript.segments.length} segments`);
   console.log(`  - ${parsedScript.totalWords} words`);
 
   // Step 2: Process avatar
   console.log('\n[2/4] Processing avatar...');
-  const processedAvatar = processAvatarWithoutTrimming(avatarSrc, avatarDurationFrames);
-  console.log(`  - ${processedAvatar.clips.length} clip(s)`);
+  const processedAvatar = processAvatar(input, badTakes);
 
   // Step 3: Load editorial decisions from JSON
   console.log('\n[3/4] Loading editorial decisions from JSON...');
-  const decisions = loadEditingDecisions();
+  const decisions = loadEditingDecisions(editingDecisions);
   console.log(`  - Loaded ${decisions.segments.length} decisions for "${decisions.videoId}"`);
 
   // Validate decisions match segments
   const segmentIds = parsedScript.segments.map(s => s.id);
-  const validation = validateDecisions(segmentIds);
+  const catalogPaths = input.assetCatalog?.entries.map((entry) => entry.path);
+  const validation = validateDecisions(segmentIds, decisions, catalogPaths);
   if (!validation.valid) {
     console.warn(`  - Warning: Missing decisions for: ${validation.missing.join(', ')}`);
   }
   if (validation.extra.length > 0) {
     console.warn(`  - Warning: Extra decisions not in script: ${validation.extra.join(', ')}`);
   }
+  if (validation.unknownAssets.length > 0) {
+    console.warn(`  - Warning: Assets not in the catalog: ${validation.unknownAssets.join(', ')}`);
+  }
 
   // Convert JSON decisions to LayoutDecisions
   const layoutDecisions: LayoutDecision[] = parsedScript.segments.map(segment => {
@@ -200,15 +462,9 @@ export const runPipelineWithDecisions = (input: PipelineInput): PipelineResult =
       return {
         segmentId: segment.id,
         layout: decision.layout,
-        helperAsset: createHelperAssetFromDecision(decision),
-        transition: {
-          type: decision.transition,
-          durationFrames: decision.transitionDuration,
-          sfx: decision.transition !== 'cut' && decision.transition !== 'none'
-            ? sfxPaths.swoosh
-            : undefined,
-          sfxVolume: 0.3,
-        },
+        helperAsset: createHelperAsset(decision),
+        textOverlay: createTextOverlayFromDecision(decision, segment),
+        transition: createTransitionFromDecision(decision, sfxPaths),
         reasoning: decision.reasoning,
       };
     } else {
@@ -230,23 +486,24 @@ export const runPipelineWithDecisions = (input: PipelineInput): PipelineResult =
 
   // Step 4: Build timeline
   console.log('\n[4/4] Building timeline...');
-  const timeline = buildTimeline(
+  const { timeline, durationFit } = assembleTimeline(
+    input,
     {
       parsedScript,
       processedAvatar,
       layoutDecisions,
     },
-    { config }
+    badTakes
   );
 
   // Validate and get stats
-  const timelineValidation = validateTimeline(timeline);
+  const timelineValidation = validateTimeline(timeline, { media: input.media, fps });
   const stats = getTimelineStats(timeline, fps);
 
   console.log('\n=== Pipeline Complete (AI-Edited) ===');
   console.log(`Total duration: ${stats.totalDuration}`);
   console.log(`Items: ${stats.itemCount}`);
-  console.log(`Layouts: A=${stats.layoutBreakdown.A}, B=${stats.layoutBreakdown.B}, C=${stats.layoutBreakdown.C}`);
+  console.log(`Layouts: ${formatLayoutBreakdown(stats.layoutBreakdown)}`);
   console.log(`Transitions: ${stats.transitionCount}`);
   console.log(`Caption words: ${stats.captionWordCount}`);
 
@@ -257,17 +514,22 @@ export const runPipelineWithDecisions = (input: PipelineInput): PipelineResult =
   return {
     timeline,
     parsedScript,
-    processedAvatar,
+    processedAvatar: durationFit?.processedAvatar ?? processedAvatar,
     layoutDecisions,
     stats,
     validation: timelineValidation,
+    durationFit,
   };
 };
 
 /**
  * Create Superheat pipeline using AI editorial decisions from JSON
+ * The asset catalog supplies the probed avatar and helper files
  */
-export const createSuperheatPipeline = (config: ProjectConfig): PipelineResult => {
+export const createSuperheatPipeline = (
+  config: ProjectConfig,
+  assetCatalog: AssetCatalog
+): PipelineResult => {
   const scriptText = `This might be the smartest or dumbest product ever built.
 Meet the Superheat H1 , unveiled at CES 2026.
 
@@ -288,10 +550,8 @@ Is this ridiculous… or kind of genius? you decide.`;
 
   return runPipelineWithDecisions({
     scriptText,
-    avatarSrc: staticFile('assets/avatar/talking avatar.mp4'),
-    avatarDurationSeconds: 35.97,
-    helperVideoPaths: [], // Not used with JSON decisions
-    helperImagePaths: [], // Not used with JSON decisions
+    avatarSrc: staticFile(getCatalogAvatar(assetCatalog).path),
+    assetCatalog,
     sfxPaths: {
       click: staticFile('assets/sfx/click.wav'),
       swoosh: staticFile('assets/sfx/swoosh.wav'),
@@ -0,0 +1,176 @@
+// ============================================
+// Script Directives
+// Inline editorial markup in the script text, e.g.
+//   [layout:C asset:superheat-intro]  [overlay:"INSANE RIGHT?"]
+//   [transition:flash]  [sfx:impact]  [break]
+// ============================================
+
+import type { DirectiveSfx, ScriptDirectives, TransitionType } from '../types';
+import { findLayout, getLayouts } from './layoutRegistry';
+
+export interface DirectiveMarker {
+  wordIndex: number; // Index (in the stripped text) of the first word after the markup
+  directives: ScriptDirectives;
+  isBreak: boolean;  // Force a segment boundary here
+  source: string;    // Original markup, for error messages
+}
+
+export interface ExtractedDirectives {
+  text: string; // Script text with all directives removed
+  markers: DirectiveMarker[];
+}
+
+const TRANSITIONS: TransitionType[] = [
+  'cut',
+  'fade',
+  'slide-left',
+  'slide-right',
+  'zoom',
+  'wipe-left',
+  'wipe-right',
+  'flash',
+  'none',
+];
+
+const SFX: DirectiveSfx[] = ['click', 'swoosh', 'impact', 'none'];
+
+const BRACKET = /\[([^[\]]*)\]/g;
+
+// key:value, key:"quoted value" or a bare key
+const PAIR = /([a-z]+)(?::(?:"([^"]*)"|“([^”]*)”|([^\s"“”]+)))?/gi;
+
+/**
+ * Brackets that don't start with a known key are left in the text,
+ * so stage directions like "[laughs]" behave as before
+ */
+const isDirective = (content: string): boolean => {
+  return (
+    /^\s*break\s*$/i.test(content) ||
+    /^\s*(break|layout|asset|overlay|transition|sfx)\s*:/i.test(content)
+  );
+};
+
+const countWords = (text: string): number => {
+  return text.split(/\s+/).filter((w) => w.length > 0).length;
+};
+
+/**
+ * Remove directives from script text and record where each one appeared
+ * Throws if a directive has an unknown key or an invalid value
+ */
+export const extractDirectives = (text: string): ExtractedDirectives => {
+  const markers: DirectiveMarker[] = [];
+  let stripped = '';
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(BRACKET)) {
+    const [source, content] = match;
+    if (!isDirective(content)) continue;
+
+    stripped += text.slice(lastIndex, match.index);
+    lastIndex = match.index! + source.length;
+
+    // Keep "Hello.[break]World" as two words
+    const next = text.charAt(lastIndex);
+    if (/[.!?,;:]$/.test(stripped) && next && !/\s/.test(next)) {
+      stripped += ' ';
+    }
+
+    markers.push({ ...parseDirective(content, source), wordIndex: countWords(stripped) });
+  }
+  stripped += text.slice(lastIndex);
+
+  return {
+    text: stripped.replace(/[ \t]+/g, ' ').trim(),
+    markers,
+  };
+};
+
+/**
+ * Parse the content of one [ ... ] directive
+ */
+const parseDirective = (
+  content: string,
+  source: string
+): Omit<DirectiveMarker, 'wordIndex'> => {
+  const directives: ScriptDirectives = {};
+  let isBreak = false;
+
+  if (content.replace(PAIR, '').trim().length > 0) {
+    throw new Error(`Invalid script directive ${source}: could not parse`);
+  }
+
+  for (const [, rawKey, quoted, curlyQuoted, bare] of content.matchAll(PAIR)) {
+    const key = rawKey.toLowerCase();
+    const value = quoted ?? curlyQuoted ?? bare;
+    const invalid = (expected: string) =>
+      new Error(`Invalid script directive ${source}: ${key} must be ${expected}`);
+
+    switch (key) {
+      case 'break':
+        if (value !== undefined) throw invalid('used without a value');
+        isBreak = true;
+        break;
+      case 'layout': {
+        const layout = value ? findLayout(value) : undefined;
+        if (!layout) throw invalid(`one of ${getLayouts().map((l) => l.id).join(', ')}`);
+        directives.layout = layout.id;
+        break;
+      }
+      case 'asset':
+        if (!value) throw invalid('an asset name or path');
+        directives.asset = value;
+        break;
+      case 'overlay':
+        if (!value?.trim()) throw invalid('non-empty text');
+        directives.overlay = value.trim();
+        break;
+      case 'transition': {
+        const transition = TRANSITIONS.find((t) => t === value?.toLowerCase());
+        if (!transition) throw invalid(`one of ${TRANSITIONS.join(', ')}`);
+        directives.transition = transition;
+        break;
+      }
+      case 'sfx': {
+        const sfx = SFX.find((s) => s === value?.toLowerCase());
+        if (!sfx) throw invalid(`one of ${SFX.join(', ')}`);
+        directives.sfx = sfx;
+        break;
+      }
+      default:
+        throw new Error(`Invalid script directive ${source}: unknown key "${rawKey}"`);
+    }
+  }
+
+  return { directives, isBreak, source };
+};
+
+/**
+ * Work out which segment each directive belongs to
+ * A directive applies to the segment containing the word that follows it
+ * (or the last segment if it ends the script). Later directives win
+ */
+export const assignDirectivesToSegments = (
+  segmentTexts: string[],
+  markers: DirectiveMarker[]
+): (ScriptDirectives | undefined)[] => {
+  const result: (ScriptDirectives | undefined)[] = segmentTexts.map(() => undefined);
+  if (segmentTexts.length === 0) return result;
+
+  const segmentEnds: number[] = [];
+  let wordCount = 0;
+  for (const text of segmentTexts) {
+    wordCount += countWords(text);
+    segmentEnds.push(wordCount);
+  }
+
+  for (const marker of markers) {
+    if (Object.keys(marker.directives).length === 0) continue;
+
+    const index = segmentEnds.findIndex((end) => marker.wordIndex < end);
+    const segmentIndex = index === -1 ? segmentTexts.length - 1 : index;
+    result[segmentIndex] = { ...result[segmentIndex], ...marker.directives };
+  }
+
+  return result;
+};
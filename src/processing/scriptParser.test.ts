@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { secondsToFrames } from '../utils/timing';
+import { parseCaptionFile } from './captionImport';
+import { parseScriptFromCaptions } from './scriptParser';
+
+const FPS = 30;
+
+// Cues break mid-sentence, so sentence grouping would give different segments
+const SRT = `1
+00:00:00,000 --> 00:00:02,000
+Meet the Superheat H1,
+
+2
+00:00:02,000 --> 00:00:04,500
+unveiled at CES. It looks like a normal
+
+3
+00:00:04,500 --> 00:00:07,000
+water heater. But inside it mines bitcoin.
+`;
+
+describe('parseScriptFromCaptions', () => {
+  it('starts a segment at every cue', () => {
+    const { cues } = parseCaptionFile(SRT);
+    const { segments } = parseScriptFromCaptions(SRT, { fps: FPS });
+
+    expect(segments.map((segment) => segment.text)).toEqual(cues.map((cue) => cue.text));
+    expect(segments.map((segment) => segment.startFrame)).toEqual(
+      cues.map((cue) => secondsToFrames(cue.startSeconds, FPS))
+    );
+    expect(segments[segments.length - 1].endFrame).toBe(secondsToFrames(7, FPS));
+  });
+
+  it('follows the cues when the script wording differs', () => {
+    const scriptText =
+      'Meet the Superheat H1, unveiled at CES. It looks like a normal water heater. ' +
+      'But inside, it mines Bitcoin!';
+    const { segments } = parseScriptFromCaptions(SRT.toUpperCase(), { fps: FPS, scriptText });
+
+    expect(segments.map((segment) => segment.text)).toEqual([
+      'Meet the Superheat H1,',
+      'unveiled at CES. It looks like a normal',
+      'water heater. But inside, it mines Bitcoin!',
+    ]);
+    expect(segments.map((segment) => segment.startFrame)).toEqual([0, 60, 135]);
+  });
+});
@@ -3,7 +3,7 @@
 // Parses script text into segments with timing and keyword analysis
 // ============================================
 
-import type { ScriptSegment, Word } from '../types';
+import type { ScriptSegment, TimedWord, Word } from '../types';
 import {
   extractKeywords,
   extractKeyPhrases,
@@ -17,6 +17,9 @@ import {
   secondsToFrames,
   SPEAKING_PACE_WPM,
 } from '../utils/timing';
+import { alignWordsToTranscript } from '../utils/alignment';
+import { parseCaptionFile } from './captionImport';
+import { extractDirectives, assignDirectivesToSegments } from './scriptDirectives';
 
 export interface ParsedScript {
   segments: ScriptSegment[];
@@ -31,9 +34,26 @@ export interface ParserOptions {
   totalDurationFrames?: number; // If known (from avatar video)
   minSegmentWords?: number;     // Minimum words per segment
   maxSegmentWords?: number;     // Maximum words per segment
+  wordTimestamps?: TimedWord[]; // Spoken word timings (transcriptParser/captionImport) - replaces estimates
+  // Start a segment at each of these times (e.g. caption cue starts) instead of
+  // grouping sentences - needs wordTimestamps
+  segmentStartSeconds?: number[];
 }
 
-const DEFAULT_OPTIONS: Required<Omit<ParserOptions, 'fps' | 'totalDurationFrames'>> = {
+type SegmentBoundary = { startFrame: number; endFrame: number; durationFrames: number };
+
+/**
+ * Pauses shorter than this keep the previous caption word lit
+ * instead of blanking the caption between words
+ */
+const CAPTION_HOLD_SECONDS = 0.5;
+
+// Slack when matching a word's start to a segment start time
+const TIME_EPSILON = 0.001;
+
+const DEFAULT_OPTIONS: Required<
+  Omit<ParserOptions, 'fps' | 'totalDurationFrames' | 'wordTimestamps' | 'segmentStartSeconds'>
+> = {
   minSegmentWords: 5,
   maxSegmentWords: 25,
 };
@@ -45,19 +65,36 @@ export const parseScript = (
   scriptText: string,
   options: ParserOptions
 ): ParsedScript => {
-  const { fps, totalDurationFrames, minSegmentWords, maxSegmentWords } = {
+  const {
+    fps,
+    totalDurationFrames,
+    minSegmentWords,
+    maxSegmentWords,
+    wordTimestamps,
+    segmentStartSeconds,
+  } = {
     ...DEFAULT_OPTIONS,
     ...options,
   };
-
-  // Clean and normalize the script
-  const cleanedText = cleanScriptText(scriptText);
-
-  // Split into sentences
-  const sentences = splitIntoSentences(cleanedText);
-
-  // Group sentences into segments based on length constraints
-  const rawSegments = groupIntoSegments(sentences, minSegmentWords!, maxSegmentWords!);
+  const hasTranscript = wordTimestamps !== undefined && wordTimestamps.length > 0;
+
+  // Clean and normalize the script, pulling out inline [key:value] directives
+  const { text: cleanedText, markers } = extractDirectives(cleanScriptText(scriptText));
+
+  // Split into sentences and group them into segments based on length constraints.
+  // [break] directives always end a segment; forced segment starts replace the grouping
+  const breakIndexes = markers.filter((m) => m.isBreak).map((m) => m.wordIndex);
+  const forcedStarts = hasTranscript && segmentStartSeconds !== undefined;
+  const startIndexes = forcedStarts
+    ? findWordIndexesAtTimes(cleanedText, wordTimestamps, segmentStartSeconds)
+    : [];
+  const blocks = splitAtWordIndexes(cleanedText, [...breakIndexes, ...startIndexes]);
+  const rawSegments = forcedStarts
+    ? blocks
+    : blocks.flatMap((block) =>
+        groupIntoSegments(splitIntoSentences(block), minSegmentWords!, maxSegmentWords!)
+      );
+  const segmentDirectives = assignDirectivesToSegments(rawSegments, markers);
 
   // Calculate total words
   const totalWords = rawSegments.reduce(
@@ -67,14 +104,21 @@ export const parseScript = (
 
   // Determine total frames
   const estimatedDuration = estimateWordDuration(totalWords, SPEAKING_PACE_WPM);
-  const finalTotalFrames = totalDurationFrames ?? secondsToFrames(estimatedDuration, fps);
+  const spokenDuration = hasTranscript
+    ? wordTimestamps[wordTimestamps.length - 1].endSeconds
+    : estimatedDuration;
+  const finalTotalFrames = totalDurationFrames ?? secondsToFrames(spokenDuration, fps);
 
   // Extract global keywords and key phrases
   const allKeywords = extractKeywords(cleanedText);
   const keyPhrases = extractKeyPhrases(cleanedText);
 
-  // Calculate frame boundaries for each segment
-  const segmentBoundaries = calculateSegmentFrames(rawSegments, finalTotalFrames);
+  // Calculate frame boundaries for each segment - snapped to the spoken words when we have them
+  const transcriptTimings = hasTranscript
+    ? calculateTranscriptTimings(rawSegments, wordTimestamps, fps, finalTotalFrames)
+    : undefined;
+  const segmentBoundaries =
+    transcriptTimings?.boundaries ?? calculateSegmentFrames(rawSegments, finalTotalFrames);
 
   // Build full segment objects
   const segments: ScriptSegment[] = rawSegments.map((text, index) => {
@@ -86,7 +130,9 @@ export const parseScript = (
     );
 
     // Parse words with timing
-    const words = parseWordsWithTiming(text, startFrame, durationFrames, fps, segmentKeywords);
+    const words = transcriptTimings
+      ? buildWordsFromFrames(text, transcriptTimings.wordFrames[index], segmentKeywords)
+      : parseWordsWithTiming(text, startFrame, durationFrames, fps, segmentKeywords);
 
     return {
       id: `segment-${index + 1}`,
@@ -98,6 +144,7 @@ export const parseScript = (
       keywords: segmentKeywords,
       importance,
       hasKeyPhrase,
+      ...(segmentDirectives[index] && { directives: segmentDirectives[index] }),
     };
   });
 
@@ -133,6 +180,39 @@ const splitIntoSentences = (text: string): string[] => {
   return sentences.map((s) => s.trim());
 };
 
+/**
+ * Split text into blocks before the given word indexes
+ */
+const splitAtWordIndexes = (text: string, indexes: number[]): string[] => {
+  const words = text.split(/\s+/).filter((w) => w.length > 0);
+  const cuts = [...new Set([0, ...indexes, words.length])].sort((a, b) => a - b);
+
+  const blocks: string[] = [];
+  for (let i = 1; i < cuts.length; i++) {
+    const block = words.slice(cuts[i - 1], cuts[i]).join(' ');
+    if (block.length > 0) blocks.push(block);
+  }
+
+  return blocks;
+};
+
+/**
+ * Index of the first script word spoken at or after each time
+ * Times before the second word or after the last one are dropped
+ */
+const findWordIndexesAtTimes = (
+  text: string,
+  transcript: TimedWord[],
+  times: number[]
+): number[] => {
+  const words = text.split(/\s+/).filter((w) => w.length > 0);
+  const aligned = alignWordsToTranscript(words, transcript);
+
+  return times
+    .map((time) => aligned.findIndex((timing) => timing.startSeconds >= time - TIME_EPSILON))
+    .filter((index) => index > 0);
+};
+
 /**
  * Group sentences into segments respecting word count limits
  */
@@ -185,11 +265,11 @@ const groupIntoSegments = (
 const calculateSegmentFrames = (
   segments: string[],
   totalFrames: number
-): { startFrame: number; endFrame: number; durationFrames: number }[] => {
+): SegmentBoundary[] => {
   const wordCounts = segments.map((s) => s.split(/\s+/).length);
   const totalWords = wordCounts.reduce((a, b) => a + b, 0);
 
-  const result: { startFrame: number; endFrame: number; durationFrames: number }[] = [];
+  const result: SegmentBoundary[] = [];
   let currentFrame = 0;
 
   for (let i = 0; i < segments.length; i++) {
@@ -209,6 +289,98 @@ const calculateSegmentFrames = (
   return result;
 };
 
+/**
+ * Calculate segment boundaries and word frames from spoken word timings
+ * Segments are cut in the middle of the pause between them
+ */
+const calculateTranscriptTimings = (
+  segments: string[],
+  transcript: TimedWord[],
+  fps: number,
+  totalFrames: number
+): {
+  boundaries: SegmentBoundary[];
+  wordFrames: { startFrame: number; endFrame: number }[][];
+} => {
+  const segmentWords = segments.map((s) => s.split(/\s+/).filter((w) => w.length > 0));
+  const aligned = alignWordsToTranscript(segmentWords.flat(), transcript);
+
+  // Split aligned timings back into segments
+  const segmentTimings: typeof aligned[] = [];
+  let offset = 0;
+  for (const words of segmentWords) {
+    segmentTimings.push(aligned.slice(offset, offset + words.length));
+    offset += words.length;
+  }
+
+  // Cut points between segments
+  const cuts = [0];
+  for (let i = 1; i < segmentTimings.length; i++) {
+    const prev = segmentTimings[i - 1];
+    const next = segmentTimings[i];
+    const pauseMid = (prev[prev.length - 1].endSeconds + next[0].startSeconds) / 2;
+    const remaining = segmentTimings.length - i;
+    const cut = Math.min(
+      Math.max(secondsToFrames(pauseMid, fps), cuts[i - 1] + 1),
+      totalFrames - remaining
+    );
+    cuts.push(cut);
+  }
+  cuts.push(totalFrames);
+
+  const boundaries = segmentTimings.map((_, i) => ({
+    startFrame: cuts[i],
+    endFrame: cuts[i + 1],
+    durationFrames: cuts[i + 1] - cuts[i],
+  }));
+
+  const holdFrames = secondsToFrames(CAPTION_HOLD_SECONDS, fps);
+  const wordFrames = segmentTimings.map((timings, i) => {
+    const { startFrame, endFrame } = boundaries[i];
+    const clamp = (frame: number) => Math.min(Math.max(frame, startFrame), endFrame);
+
+    const frames = timings.map((t) => ({
+      startFrame: clamp(secondsToFrames(t.startSeconds, fps)),
+      endFrame: clamp(secondsToFrames(t.endSeconds, fps)),
+    }));
+
+    for (let w = 0; w < frames.length; w++) {
+      const word = frames[w];
+      const next = frames[w + 1];
+
+      if (w > 0) word.startFrame = Math.max(word.startFrame, frames[w - 1].startFrame);
+      word.endFrame = Math.max(word.endFrame, Math.min(word.startFrame + 1, endFrame));
+
+      // Bridge short pauses so captions don't flicker between words
+      if (next && next.startFrame > word.endFrame && next.startFrame - word.endFrame <= holdFrames) {
+        word.endFrame = next.startFrame;
+      }
+    }
+
+    return frames;
+  });
+
+  return { boundaries, wordFrames };
+};
+
+/**
+ * Build words from already-known frame timings
+ */
+const buildWordsFromFrames = (
+  text: string,
+  frames: { startFrame: number; endFrame: number }[],
+  segmentKeywords: string[]
+): Word[] => {
+  const wordStrings = text.split(/\s+/).filter((w) => w.length > 0);
+
+  return wordStrings.map((word, i) => ({
+    text: word,
+    startFrame: frames[i].startFrame,
+    endFrame: frames[i].endFrame,
+    isKeyword: segmentKeywords.includes(normalizeWord(word)) && !isStopWord(word),
+  }));
+};
+
 /**
  * Parse words with frame timing and keyword flags
  */
@@ -250,6 +422,26 @@ export const parseScriptFromText = (
   });
 };
 
+/**
+ * Parse a script from a vendor SRT/WebVTT file
+ * Cue timings replace the proportional split, and each cue becomes a segment, so
+ * segment boundaries follow the vendor's cue breaks. Pass scriptText to keep the
+ * original script wording (e.g. when the captions are all-caps or abbreviated)
+ */
+export const parseScriptFromCaptions = (
+  captionContent: string,
+  options: Omit<ParserOptions, 'wordTimestamps' | 'segmentStartSeconds'> & { scriptText?: string }
+): ParsedScript => {
+  const { scriptText, ...parserOptions } = options;
+  const captions = parseCaptionFile(captionContent);
+
+  return parseScript(scriptText ?? captions.text, {
+    ...parserOptions,
+    wordTimestamps: captions.words,
+    segmentStartSeconds: captions.cues.map((cue) => cue.startSeconds),
+  });
+};
+
 /**
  * Update segment timings based on actual avatar duration
  * Call this after silence detection to re-align script to actual video
@@ -10,16 +10,30 @@ export interface SilenceDetectorOptions {
   fps: number;
   silenceThresholdSeconds: number;  // Minimum silence duration to detect
   minClipDurationSeconds: number;   // Minimum clip length after cutting
+  additionalCuts: SilenceRegion[];  // Regions to always remove (e.g. bad takes from detectBadTakes)
+  preRollSeconds: number;           // Silence kept before speech resumes after a cut
+  postRollSeconds: number;          // Silence kept after speech stops before a cut
+  crossfadeSeconds: number;         // Audio crossfade length at each cut
 }
 
 const DEFAULT_OPTIONS: Omit<SilenceDetectorOptions, 'fps'> = {
   silenceThresholdSeconds: 0.5,
   minClipDurationSeconds: 1.0,
+  additionalCuts: [],
+  preRollSeconds: 0.1,
+  postRollSeconds: 0.15,
+  crossfadeSeconds: 0.05,
 };
 
+/**
+ * Region removed from the avatar - forced cuts are never bridged to keep a short clip
+ */
+type CutRegion = SilenceRegion & { forced: boolean };
+
 /**
  * Silence detection result from external tool (e.g., ffmpeg)
  * This would typically come from: ffmpeg -i input.mp4 -af silencedetect=n=-30dB:d=0.5 -f null -
+ * or from detectSilencesInWav when ffmpeg isn't available
  */
 export interface SilenceDetectionInput {
   silences: {
@@ -39,9 +53,11 @@ export const processAvatarWithSilences = (
   options: Partial<SilenceDetectorOptions> & { fps: number }
 ): ProcessedAvatar => {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  const { fps, silenceThresholdSeconds, minClipDurationSeconds } = opts;
+  const { fps, silenceThresholdSeconds, minClipDurationSeconds, additionalCuts } = opts;
 
   const totalDurationFrames = secondsToFrames(silenceInput.totalDurationSeconds, fps);
+  const preRollFrames = secondsToFrames(opts.preRollSeconds, fps);
+  const postRollFrames = secondsToFrames(opts.postRollSeconds, fps);
 
   // Convert silence times to frames and filter by threshold
   const silenceRegions: SilenceRegion[] = silenceInput.silences
@@ -52,12 +68,28 @@ export const processAvatarWithSilences = (
       durationFrames: secondsToFrames(s.endSeconds - s.startSeconds, fps),
     }));
 
+  // Keep handles either side of the speech so word edges aren't clipped.
+  // Bad-take cuts already end where the kept speech starts
+  const handledSilences: CutRegion[] = silenceRegions
+    .map((region) => ({
+      startFrame: region.startFrame > 0 ? region.startFrame + postRollFrames : 0,
+      endFrame:
+        region.endFrame < totalDurationFrames ? region.endFrame - preRollFrames : region.endFrame,
+      durationFrames: 0,
+      forced: false,
+    }))
+    .filter((region) => region.endFrame > region.startFrame)
+    .map((region) => ({ ...region, durationFrames: region.endFrame - region.startFrame }));
+
   // Generate clips by removing silences
-  const clips = generateClipsFromSilences(
-    avatarSrc,
-    totalDurationFrames,
-    silenceRegions,
-    secondsToFrames(minClipDurationSeconds, fps)
+  const clips = addCrossfades(
+    generateClipsFromSilences(
+      avatarSrc,
+      totalDurationFrames,
+      [...handledSilences, ...additionalCuts.map((region) => ({ ...region, forced: true }))],
+      secondsToFrames(minClipDurationSeconds, fps)
+    ),
+    secondsToFrames(opts.crossfadeSeconds, fps)
   );
 
   // Calculate processed duration
@@ -76,11 +108,13 @@ export const processAvatarWithSilences = (
 
 /**
  * Generate clips by cutting out silence regions
+ * Speech shorter than the minimum clip length is never dropped - the silence
+ * before it is kept instead, so the short clip joins the previous one
  */
 const generateClipsFromSilences = (
   src: string,
   totalFrames: number,
-  silences: SilenceRegion[],
+  silences: CutRegion[],
   minClipFrames: number
 ): AvatarClip[] => {
   const clips: AvatarClip[] = [];
@@ -90,43 +124,180 @@ const generateClipsFromSilences = (
 
   let currentFrame = 0;
   let outputFrame = 0;
-
-  for (const silence of sortedSilences) {
-    // Clip before this silence
-    const clipDuration = silence.startFrame - currentFrame;
-
-    if (clipDuration >= minClipFrames) {
-      clips.push({
-        src,
-        startFrame: outputFrame,
-        endFrame: outputFrame + clipDuration,
-        originalStartFrame: currentFrame,
-        originalEndFrame: silence.startFrame,
-        volume: 1,
-      });
-      outputFrame += clipDuration;
+  let lastCutForced = false;
+
+  const addClip = (endFrame: number) => {
+    const clipDuration = endFrame - currentFrame;
+    if (clipDuration <= 0) return;
+
+    const prev = clips[clips.length - 1];
+    if (prev && clipDuration < minClipFrames && !lastCutForced) {
+      // Too short to stand alone - extend the previous clip through the silence
+      const extension = endFrame - prev.originalEndFrame;
+      prev.endFrame += extension;
+      prev.originalEndFrame = endFrame;
+      outputFrame += extension;
+      return;
     }
 
-    // Skip past silence
-    currentFrame = silence.endFrame;
-  }
-
-  // Final clip after last silence
-  const remainingFrames = totalFrames - currentFrame;
-  if (remainingFrames >= minClipFrames) {
     clips.push({
       src,
       startFrame: outputFrame,
-      endFrame: outputFrame + remainingFrames,
+      endFrame: outputFrame + clipDuration,
       originalStartFrame: currentFrame,
-      originalEndFrame: totalFrames,
+      originalEndFrame: endFrame,
       volume: 1,
     });
+    outputFrame += clipDuration;
+  };
+
+  for (const silence of sortedSilences) {
+    // Clip before this silence
+    addClip(Math.min(silence.startFrame, totalFrames));
+
+    // Skip past silence
+    if (silence.endFrame > currentFrame) {
+      lastCutForced =
+        silence.forced || (lastCutForced && silence.startFrame <= currentFrame);
+      currentFrame = silence.endFrame;
+    }
   }
 
+  // Final clip after last silence
+  addClip(totalFrames);
+
   return clips;
 };
 
+/**
+ * Run each clip's audio a little past the cuts either side and fade it, so
+ * consecutive clips crossfade instead of switching abruptly.
+ * The extension never reaches more than halfway into the removed material
+ */
+const addCrossfades = (clips: AvatarClip[], crossfadeFrames: number): AvatarClip[] => {
+  const half = Math.floor(crossfadeFrames / 2);
+  if (half <= 0) return clips;
+
+  const extensions = clips.slice(1).map((clip, index) => {
+    const gap = clip.originalStartFrame - clips[index].originalEndFrame;
+    return Math.max(0, Math.min(half, Math.floor(gap / 2)));
+  });
+
+  return clips.map((clip, index) => {
+    const lead = index > 0 ? extensions[index - 1] : 0;
+    const tail = index < extensions.length ? extensions[index] : 0;
+    const duration = clip.endFrame - clip.startFrame;
+
+    return setAudioEdges(clip, {
+      lead,
+      fadeIn: Math.min(lead * 2, duration),
+      tail,
+      fadeOut: Math.min(tail * 2, duration),
+    });
+  });
+};
+
+/**
+ * How far a clip's audio runs past its picture, and how long it fades
+ */
+export interface AudioEdges {
+  lead: number; // Frames of audio before the picture starts
+  fadeIn: number;
+  tail: number; // Frames of audio after the picture ends
+  fadeOut: number;
+}
+
+export const getAudioEdges = (clip: AvatarClip): AudioEdges => {
+  if (!clip.audio) {
+    return { lead: 0, fadeIn: 0, tail: 0, fadeOut: 0 };
+  }
+
+  return {
+    lead: clip.startFrame - clip.audio.startFrame,
+    fadeIn: clip.audio.fadeInFrames,
+    tail: clip.audio.endFrame - clip.endFrame,
+    fadeOut: clip.audio.fadeOutFrames,
+  };
+};
+
+/**
+ * Set a clip's audio range relative to its picture
+ * Audio matching the picture with no fades is left off the clip
+ */
+export const setAudioEdges = (clip: AvatarClip, edges: AudioEdges): AvatarClip => {
+  const picture = { ...clip };
+  delete picture.audio;
+  if (edges.lead === 0 && edges.tail === 0 && edges.fadeIn === 0 && edges.fadeOut === 0) {
+    return picture;
+  }
+
+  return {
+    ...picture,
+    audio: {
+      startFrame: clip.startFrame - edges.lead,
+      endFrame: clip.endFrame + edges.tail,
+      fadeInFrames: edges.fadeIn,
+      fadeOutFrames: edges.fadeOut,
+    },
+  };
+};
+
+/**
+ * Map a frame in the original avatar video to the trimmed output
+ * Frames inside a removed silence map to the cut point
+ */
+export const mapFrameToOutput = (clips: AvatarClip[], originalFrame: number): number => {
+  for (const clip of clips) {
+    if (originalFrame < clip.originalStartFrame) {
+      return clip.startFrame;
+    }
+    if (originalFrame <= clip.originalEndFrame) {
+      return clip.startFrame + (originalFrame - clip.originalStartFrame);
+    }
+  }
+
+  return clips.length > 0 ? clips[clips.length - 1].endFrame : originalFrame;
+};
+
+/**
+ * Get the parts of the trimmed clips that cover an original frame range
+ * A range spanning a cut returns one sub-clip per side of the cut
+ */
+export const getClipsInRange = (
+  clips: AvatarClip[],
+  originalStartFrame: number,
+  originalEndFrame: number
+): AvatarClip[] => {
+  return clips
+    .filter(
+      (clip) =>
+        clip.originalEndFrame > originalStartFrame && clip.originalStartFrame < originalEndFrame
+    )
+    .map((clip) => {
+      const from = Math.max(originalStartFrame, clip.originalStartFrame);
+      const to = Math.min(originalEndFrame, clip.originalEndFrame);
+      const startFrame = clip.startFrame + (from - clip.originalStartFrame);
+      const edges = getAudioEdges(clip);
+
+      // Crossfades only belong to the edges that are still at a cut
+      return setAudioEdges(
+        {
+          ...clip,
+          startFrame,
+          endFrame: startFrame + (to - from),
+          originalStartFrame: from,
+          originalEndFrame: to,
+        },
+        {
+          lead: from === clip.originalStartFrame ? edges.lead : 0,
+          fadeIn: from === clip.originalStartFrame ? Math.min(edges.fadeIn, to - from) : 0,
+          tail: to === clip.originalEndFrame ? edges.tail : 0,
+          fadeOut: to === clip.originalEndFrame ? Math.min(edges.fadeOut, to - from) : 0,
+        }
+      );
+    });
+};
+
 /**
  * Create a ProcessedAvatar without any silence removal
  * Use when silence detection is not needed or not available
@@ -218,9 +389,12 @@ export const mergeCloseClips = (
     const gap = current.originalStartFrame - prev.originalEndFrame;
 
     if (gap <= minGapFrames) {
-      // Merge: extend previous clip to include current
+      // Merge: extend previous clip to include current, keeping its audio tail
+      const { lead, fadeIn } = getAudioEdges(prev);
+      const { tail, fadeOut } = getAudioEdges(current);
       prev.endFrame = prev.endFrame + (current.endFrame - current.startFrame) + gap;
       prev.originalEndFrame = current.originalEndFrame;
+      merged[merged.length - 1] = setAudioEdges(prev, { lead, fadeIn, tail, fadeOut });
     } else {
       merged.push({ ...current });
     }
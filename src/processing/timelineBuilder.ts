@@ -12,9 +12,19 @@ import type {
   CaptionData,
   CaptionWord,
   LayoutType,
+  AvatarClip,
 } from '../types';
+import { getLayout, getLayouts } from './layoutRegistry';
 import type { LayoutDecision } from './layoutPlanner';
+import {
+  getAudioEdges,
+  getClipsInRange,
+  mapFrameToOutput,
+  setAudioEdges,
+} from './silenceDetector';
+import { convertFrame, secondsToFrames } from '../utils/timing';
 import type { ParsedScript } from './scriptParser';
+import type { MediaCatalog } from './mediaProbe';
 
 export interface TimelineBuilderOptions {
   config: ProjectConfig;
@@ -26,8 +36,23 @@ export interface TimelineBuildInput {
   layoutDecisions: LayoutDecision[];
 }
 
+/**
+ * Speech of one segment placed on the output timeline
+ */
+interface SegmentSpan {
+  index: number;
+  segment: ScriptSegment;
+  decision: LayoutDecision;
+  startFrame: number;
+  endFrame: number;
+  toOutput: (originalFrame: number) => number;
+}
+
 /**
  * Build the final timeline from all processed data
+ * Items follow the segments' speech, except that picture changes move by the
+ * transition's audioOffsetFrames (or the layoutChangeAudioOffset setting when
+ * the layout changes) to make J-cuts and L-cuts
  */
 export const buildTimeline = (
   input: TimelineBuildInput,
@@ -42,14 +67,10 @@ export const buildTimeline = (
     layoutMap.set(decision.segmentId, decision);
   }
 
-  // Create a map of segment ID to script segment
-  const segmentMap = new Map<string, ScriptSegment>();
-  for (const segment of parsedScript.segments) {
-    segmentMap.set(segment.id, segment);
-  }
-
-  // Build timeline items
-  const items: TimelineItem[] = [];
+  // Place each segment's speech on the output timeline, back to back.
+  // The track holds the avatar footage under the whole timeline
+  const spans: SegmentSpan[] = [];
+  const track: AvatarClip[] = [];
   let currentOutputFrame = 0;
 
   for (let i = 0; i < parsedScript.segments.length; i++) {
@@ -61,42 +82,93 @@ export const buildTimeline = (
       continue;
     }
 
-    // Find the avatar clip that covers this segment's time range
-    const avatarClip = findAvatarClipForSegment(
-      segment,
-      processedAvatar,
-      currentOutputFrame
+    // Find the avatar footage that covers this segment's time range.
+    // A segment spanning a silence cut plays as several sub-clips
+    const subClips = getClipsInRange(
+      processedAvatar.clips,
+      segment.startFrame,
+      segment.endFrame
     );
+    if (subClips.length === 0) {
+      console.warn(`Segment ${segment.id} lies entirely in removed silence, skipping`);
+      continue;
+    }
+
+    // Map original avatar frames onto the trimmed output, keeping items back to back
+    const shift = currentOutputFrame - subClips[0].startFrame;
+    const startFrame = currentOutputFrame;
+    const endFrame = startFrame + subClips[subClips.length - 1].endFrame - subClips[0].startFrame;
 
-    // Build caption data from segment words
-    const caption = buildCaptionData(segment, currentOutputFrame, config);
+    track.push(...subClips.map((clip) => shiftClip(clip, shift)));
+    spans.push({
+      index: i,
+      segment,
+      decision,
+      startFrame,
+      endFrame,
+      toOutput: (frame: number) =>
+        clamp(mapFrameToOutput(processedAvatar.clips, frame) + shift, startFrame, endFrame),
+    });
+    currentOutputFrame = endFrame;
+  }
 
-    // Calculate item duration
-    const itemDuration = avatarClip.endFrame - avatarClip.startFrame;
+  // Move picture changes for J-cuts and L-cuts
+  const layoutChangeOffset = secondsToFrames(config.settings.layoutChangeAudioOffset, config.fps);
+  const pictureStarts = spans.map((span, index) =>
+    index === 0
+      ? span.startFrame
+      : span.startFrame + getAudioOffset(spans[index - 1], span, layoutChangeOffset)
+  );
+
+  const items: TimelineItem[] = spans.map((span, index) => {
+    const { segment, decision } = span;
+    const startFrame = pictureStarts[index];
+    const endFrame = index + 1 < spans.length ? pictureStarts[index + 1] : span.endFrame;
+
+    const pieces = track
+      .filter(
+        (clip) =>
+          clip.endFrame > Math.min(startFrame, span.startFrame) &&
+          clip.startFrame < Math.max(endFrame, span.endFrame)
+      )
+      .map((clip) => splitPictureAndAudio(clip, startFrame, endFrame, span))
+      .filter((piece): piece is AvatarClip => piece !== undefined);
 
-    const item: TimelineItem = {
-      id: `item-${i + 1}`,
+    return {
+      id: `item-${span.index + 1}`,
       segmentId: segment.id,
-      startFrame: currentOutputFrame,
-      endFrame: currentOutputFrame + itemDuration,
-      durationFrames: itemDuration,
+      startFrame,
+      endFrame,
+      durationFrames: endFrame - startFrame,
       layout: decision.layout,
-      avatarClip,
+      avatarClip: pieces.length === 1 ? pieces[0] : combinePieces(pieces, startFrame, endFrame),
+      avatarSubClips: pieces.length > 1 ? pieces : undefined,
       helperAsset: decision.helperAsset,
       textOverlay: decision.textOverlay
         ? {
             ...decision.textOverlay,
-            // Adjust overlay frames relative to item start
-            startFrame: decision.textOverlay.startFrame - segment.startFrame + currentOutputFrame,
-            endFrame: decision.textOverlay.endFrame - segment.startFrame + currentOutputFrame,
+            // Move overlay frames onto the output timeline
+            startFrame: clamp(span.toOutput(decision.textOverlay.startFrame), startFrame, endFrame),
+            endFrame: clamp(span.toOutput(decision.textOverlay.endFrame), startFrame, endFrame),
           }
         : undefined,
-      caption,
+      caption: {
+        words: [],
+        style: config.settings.captionStyle,
+      },
       transition: decision.transition,
     };
+  });
 
-    items.push(item);
-    currentOutputFrame += itemDuration;
+  // Captions follow the picture - words spoken under a J/L-cut show on the item on screen
+  for (const span of spans) {
+    for (const word of buildCaptionData(span.segment, span.toOutput, config).words) {
+      const index = pictureStarts.reduce(
+        (found, start, i) => (start <= word.startFrame ? i : found),
+        0
+      );
+      items[index].caption.words.push(word);
+    }
   }
 
   return {
@@ -105,81 +177,124 @@ export const buildTimeline = (
   };
 };
 
+const clamp = (value: number, min: number, max: number): number => {
+  return Math.min(Math.max(value, min), max);
+};
+
+const shiftClip = (clip: AvatarClip, shift: number): AvatarClip => {
+  return setAudioEdges(
+    { ...clip, startFrame: clip.startFrame + shift, endFrame: clip.endFrame + shift },
+    getAudioEdges(clip)
+  );
+};
+
 /**
- * Find the avatar clip that corresponds to a script segment
+ * Frames the picture change moves after (J-cut) or before (L-cut) the speech
+ * Limited so that every item keeps at least one frame of picture
  */
-const findAvatarClipForSegment = (
-  segment: ScriptSegment,
-  processedAvatar: ProcessedAvatar,
-  outputStartFrame: number
-): TimelineItem['avatarClip'] => {
-  // For simple case with single clip, use segment timing directly
-  if (processedAvatar.clips.length === 1) {
-    const clip = processedAvatar.clips[0];
+const getAudioOffset = (
+  prev: SegmentSpan,
+  span: SegmentSpan,
+  layoutChangeOffset: number
+): number => {
+  const requested =
+    span.decision.transition.audioOffsetFrames ??
+    (prev.decision.layout !== span.decision.layout ? layoutChangeOffset : 0);
+
+  const shortest = Math.min(prev.endFrame - prev.startFrame, span.endFrame - span.startFrame);
+  const limit = Math.max(0, Math.floor((shortest - 1) / 2));
+  return clamp(requested, -limit, limit);
+};
 
-    return {
-      src: clip.src,
-      startFrame: outputStartFrame,
-      endFrame: outputStartFrame + segment.durationFrames,
-      originalStartFrame: segment.startFrame,
-      originalEndFrame: segment.endFrame,
-      volume: 1,
-    };
-  }
+/**
+ * Cut the part of a track clip belonging to one item
+ * The picture covers the item's frames, the audio covers its speech -
+ * the audio is only set on the clip where the two differ
+ */
+const splitPictureAndAudio = (
+  clip: AvatarClip,
+  pictureStart: number,
+  pictureEnd: number,
+  span: SegmentSpan
+): AvatarClip | undefined => {
+  const from = clamp(pictureStart, clip.startFrame, clip.endFrame);
+  const to = clamp(pictureEnd, from, clip.endFrame);
+  const audioFrom = clamp(span.startFrame, clip.startFrame, clip.endFrame);
+  const audioTo = clamp(span.endFrame, audioFrom, clip.endFrame);
+
+  if (to === from && audioTo === audioFrom) return undefined;
+
+  // Crossfades only apply where the speech reaches the cut
+  const edges = getAudioEdges(clip);
+  const atStart = audioFrom === clip.startFrame && audioTo > audioFrom;
+  const atEnd = audioTo === clip.endFrame && audioTo > audioFrom;
+  const lead = atStart ? Math.min(edges.lead, audioFrom) : 0;
+  const tail = atEnd ? edges.tail : 0;
+  const fadeIn = atStart ? Math.min(edges.fadeIn, audioTo - audioFrom) : 0;
+  const fadeOut = atEnd ? Math.min(edges.fadeOut, audioTo - audioFrom) : 0;
+
+  const originalStartFrame = clip.originalStartFrame + (from - clip.startFrame);
+  const picture: AvatarClip = {
+    src: clip.src,
+    startFrame: from,
+    endFrame: to,
+    originalStartFrame,
+    originalEndFrame: originalStartFrame + (to - from),
+    crop: clip.crop,
+    volume: clip.volume,
+  };
 
-  // For multiple clips (after silence removal), find overlapping clip
-  for (const clip of processedAvatar.clips) {
-    if (
-      clip.originalStartFrame <= segment.startFrame &&
-      clip.originalEndFrame >= segment.endFrame
-    ) {
-      const offsetInClip = segment.startFrame - clip.originalStartFrame;
-      return {
-        src: clip.src,
-        startFrame: outputStartFrame,
-        endFrame: outputStartFrame + segment.durationFrames,
-        originalStartFrame: clip.originalStartFrame + offsetInClip,
-        originalEndFrame: clip.originalStartFrame + offsetInClip + segment.durationFrames,
-        volume: 1,
-      };
-    }
+  if (audioFrom === from && audioTo === to && lead + tail + fadeIn + fadeOut === 0) {
+    return picture;
   }
 
-  // Fallback: use first clip
-  const firstClip = processedAvatar.clips[0];
   return {
-    src: firstClip.src,
-    startFrame: outputStartFrame,
-    endFrame: outputStartFrame + segment.durationFrames,
-    originalStartFrame: segment.startFrame,
-    originalEndFrame: segment.endFrame,
+    ...picture,
+    audio: {
+      startFrame: audioFrom - lead,
+      endFrame: audioTo + tail,
+      fadeInFrames: fadeIn,
+      fadeOutFrames: fadeOut,
+    },
+  };
+};
+
+/**
+ * Single clip describing an item made of several pieces
+ */
+const combinePieces = (pieces: AvatarClip[], startFrame: number, endFrame: number): AvatarClip => {
+  const withPicture = pieces.filter((piece) => piece.endFrame > piece.startFrame);
+  const first = withPicture[0];
+  const last = withPicture[withPicture.length - 1];
+
+  return {
+    src: first.src,
+    startFrame,
+    endFrame,
+    originalStartFrame: first.originalStartFrame,
+    originalEndFrame: last.originalEndFrame,
     volume: 1,
   };
 };
 
 /**
  * Build caption data from segment words
+ * Words that fall entirely inside removed silence are dropped
  */
 const buildCaptionData = (
   segment: ScriptSegment,
-  outputStartFrame: number,
+  toOutput: (originalFrame: number) => number,
   config: ProjectConfig
 ): CaptionData => {
-  // Map word timings to output frame range
-  const segmentDuration = segment.durationFrames;
-  const originalDuration = segment.endFrame - segment.startFrame;
-  const timeScale = segmentDuration / Math.max(originalDuration, 1);
+  const words: CaptionWord[] = [];
 
-  const words: CaptionWord[] = segment.words.map((word) => {
-    const relativeStart = word.startFrame - segment.startFrame;
-    const relativeEnd = word.endFrame - segment.startFrame;
+  for (const word of segment.words) {
+    const startFrame = toOutput(word.startFrame);
+    const endFrame = toOutput(word.endFrame);
 
-    return {
-      text: word.text,
-      startFrame: outputStartFrame + Math.round(relativeStart * timeScale),
-      endFrame: outputStartFrame + Math.round(relativeEnd * timeScale),
-    };
-  });
+    if (endFrame === startFrame && word.endFrame > word.startFrame) continue;
+    words.push({ text: word.text, startFrame, endFrame });
+  }
 
   return {
     words,
@@ -236,11 +351,69 @@ export const buildSimpleTimeline = (
   };
 };
 
+export interface TimelineValidationOptions {
+  media?: MediaCatalog; // Probed files - checks clips against their real length and tracks
+  fps?: number;         // Project frame rate, needed with media
+}
+
+/**
+ * Check avatar and helper clips against the probed files they read
+ */
+const validateMedia = (
+  timeline: Timeline,
+  media: MediaCatalog,
+  fps: number,
+  errors: string[],
+  warnings: string[]
+) => {
+  const mismatchedRates = new Set<string>();
+
+  for (const item of timeline.items) {
+    for (const clip of item.avatarSubClips ?? [item.avatarClip]) {
+      const info = media[clip.src];
+      if (!info) continue;
+
+      // Clip positions are output frames - compare them in the file's own frames
+      const sourceFps = clip.sourceFps ?? info.fps ?? fps;
+      const sourceFrames = secondsToFrames(info.durationSeconds, sourceFps);
+      const lastFrame = convertFrame(clip.originalEndFrame, fps, sourceFps);
+      if (lastFrame > sourceFrames) {
+        errors.push(`Item ${item.id} reads avatar frame ${lastFrame} of ${sourceFrames}`);
+      }
+      if (!info.hasVideo) errors.push(`Avatar ${clip.src} has no video track`);
+      if (!info.hasAudio) warnings.push(`Avatar ${clip.src} has no audio track`);
+
+      if (Math.abs(sourceFps - fps) > 0.01) {
+        const rate = sourceFps.toFixed(2);
+        mismatchedRates.add(`${clip.src} is ${rate}fps but the project is ${fps}fps`);
+      }
+    }
+
+    const asset = item.helperAsset;
+    const info = asset && media[asset.src];
+    if (asset?.type === 'video' && info) {
+      const sourceFrames = Math.floor(info.durationSeconds * (asset.sourceFps ?? fps));
+      if (!info.hasVideo) errors.push(`Helper ${asset.src} has no video track`);
+      if (asset.endFrame !== undefined && asset.endFrame > sourceFrames) {
+        warnings.push(
+          `Item ${item.id} shows frame ${asset.endFrame} of ${sourceFrames} from ${asset.src}`
+        );
+      }
+    }
+  }
+
+  for (const mismatch of mismatchedRates) {
+    warnings.push(`Frame rate mismatch: ${mismatch}`);
+  }
+};
+
 /**
  * Validate timeline for rendering
+ * Pass the probed media to also check clips against the files
  */
 export const validateTimeline = (
-  timeline: Timeline
+  timeline: Timeline,
+  options: TimelineValidationOptions = {}
 ): { valid: boolean; errors: string[]; warnings: string[] } => {
   const errors: string[] = [];
   const warnings: string[] = [];
@@ -279,11 +452,18 @@ export const validateTimeline = (
       errors.push(`Item ${item.id} has no avatar source`);
     }
 
-    if ((item.layout === 'B' || item.layout === 'C') && !item.helperAsset) {
+    const layout = getLayout(item.layout);
+    if (!layout) {
+      errors.push(`Item ${item.id} uses unknown layout ${item.layout}`);
+    } else if (layout.requiresHelper && !item.helperAsset) {
       warnings.push(`Item ${item.id} uses layout ${item.layout} but has no helper asset`);
     }
   }
 
+  if (options.media && options.fps) {
+    validateMedia(timeline, options.media, options.fps, errors, warnings);
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -300,16 +480,18 @@ export const getTimelineStats = (
 ): {
   totalDuration: string;
   itemCount: number;
-  layoutBreakdown: Record<LayoutType, number>;
+  layoutBreakdown: Record<string, number>; // Item count per layout id
   transitionCount: number;
   captionWordCount: number;
 } => {
-  const layoutBreakdown: Record<LayoutType, number> = { A: 0, B: 0, C: 0 };
+  const layoutBreakdown: Record<string, number> = Object.fromEntries(
+    getLayouts().map((layout) => [layout.id, 0])
+  );
   let transitionCount = 0;
   let captionWordCount = 0;
 
   for (const item of timeline.items) {
-    layoutBreakdown[item.layout]++;
+    layoutBreakdown[item.layout] = (layoutBreakdown[item.layout] ?? 0) + 1;
     if (item.transition.type !== 'none') {
       transitionCount++;
     }
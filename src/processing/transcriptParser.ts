@@ -0,0 +1,220 @@
+// ============================================
+// Transcript Parser
+// Reads word-level timestamps from transcription/TTS services
+// ============================================
+
+import type { TimedWord } from '../types';
+
+export type TranscriptFormat = 'whisperx' | 'elevenlabs' | 'word-timestamps';
+
+/**
+ * WhisperX output (aligned)
+ * Words the aligner could not place (often numbers) have no start/end
+ */
+interface WhisperXWord {
+  word: string;
+  start?: number;
+  end?: number;
+  score?: number;
+}
+
+interface WhisperXTranscript {
+  segments?: { words?: WhisperXWord[] }[];
+  word_segments?: WhisperXWord[];
+}
+
+/**
+ * ElevenLabs character alignment (text-to-speech "with-timestamps" endpoint)
+ */
+interface ElevenLabsAlignment {
+  characters: string[];
+  character_start_times_seconds: number[];
+  character_end_times_seconds: number[];
+}
+
+interface ElevenLabsResponse {
+  alignment?: ElevenLabsAlignment;
+  normalized_alignment?: ElevenLabsAlignment;
+}
+
+/**
+ * VoiceOutput.wordTimestamps shape from SPEC.md
+ */
+interface SpecWordTimestamp {
+  word: string;
+  startTime: number;
+  endTime: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * Detect which transcript format a parsed JSON value is in
+ */
+export const detectTranscriptFormat = (data: unknown): TranscriptFormat | undefined => {
+  if (Array.isArray(data)) {
+    return isObject(data[0]) && 'startTime' in data[0] ? 'word-timestamps' : undefined;
+  }
+  if (!isObject(data)) return undefined;
+
+  if (Array.isArray(data.wordTimestamps)) return 'word-timestamps';
+  if (Array.isArray(data.segments) || Array.isArray(data.word_segments)) return 'whisperx';
+  if (
+    Array.isArray(data.characters) ||
+    isObject(data.alignment) ||
+    isObject(data.normalized_alignment)
+  ) {
+    return 'elevenlabs';
+  }
+
+  return undefined;
+};
+
+/**
+ * Parse word timestamps from any supported transcript format
+ * Accepts a parsed object or JSON text; throws if the format is not recognised
+ */
+export const parseWordTimestamps = (raw: unknown, format?: TranscriptFormat): TimedWord[] => {
+  const data = typeof raw === 'string' ? JSON.parse(raw) : raw;
+  const detected = format ?? detectTranscriptFormat(data);
+
+  switch (detected) {
+    case 'whisperx':
+      return parseWhisperX(data as WhisperXTranscript);
+    case 'elevenlabs':
+      return parseElevenLabsAlignment(data as ElevenLabsAlignment | ElevenLabsResponse);
+    case 'word-timestamps':
+      return parseSpecWordTimestamps(
+        Array.isArray(data) ? data : (data as { wordTimestamps: SpecWordTimestamp[] }).wordTimestamps
+      );
+    default:
+      throw new Error(
+        'Unrecognised transcript format (expected WhisperX, ElevenLabs alignment or wordTimestamps)'
+      );
+  }
+};
+
+/**
+ * Parse WhisperX output, interpolating times for unaligned words
+ */
+export const parseWhisperX = (data: WhisperXTranscript): TimedWord[] => {
+  const rawWords =
+    data.word_segments ?? (data.segments ?? []).flatMap((segment) => segment.words ?? []);
+
+  const words = rawWords
+    .map((w) => ({ ...w, word: w.word.trim() }))
+    .filter((w) => w.word.length > 0);
+
+  return fillMissingTimes(
+    words.map((w) => ({
+      text: w.word,
+      start: w.start,
+      end: w.end,
+      confidence: w.score,
+    }))
+  );
+};
+
+/**
+ * Parse ElevenLabs character alignment by grouping characters into words
+ */
+export const parseElevenLabsAlignment = (
+  data: ElevenLabsAlignment | ElevenLabsResponse
+): TimedWord[] => {
+  const alignment =
+    'characters' in data ? data : (data.alignment ?? data.normalized_alignment);
+  if (!alignment) {
+    throw new Error('ElevenLabs response has no alignment data');
+  }
+
+  const {
+    characters,
+    character_start_times_seconds: starts,
+    character_end_times_seconds: ends,
+  } = alignment;
+
+  const words: TimedWord[] = [];
+  let current: TimedWord | undefined;
+
+  for (let i = 0; i < characters.length; i++) {
+    const char = characters[i];
+
+    if (/\s/.test(char)) {
+      if (current) words.push(current);
+      current = undefined;
+      continue;
+    }
+
+    if (current) {
+      current.text += char;
+      current.endSeconds = ends[i];
+    } else {
+      current = { text: char, startSeconds: starts[i], endSeconds: ends[i] };
+    }
+  }
+  if (current) words.push(current);
+
+  return words;
+};
+
+/**
+ * Parse the SPEC.md VoiceOutput.wordTimestamps shape
+ */
+export const parseSpecWordTimestamps = (timestamps: SpecWordTimestamp[]): TimedWord[] => {
+  return timestamps
+    .filter((t) => t.word.trim().length > 0)
+    .map((t) => ({
+      text: t.word.trim(),
+      startSeconds: t.startTime,
+      endSeconds: t.endTime,
+    }));
+};
+
+/**
+ * Interpolate start/end for words the transcriber could not time
+ */
+const fillMissingTimes = (
+  words: { text: string; start?: number; end?: number; confidence?: number }[]
+): TimedWord[] => {
+  const result: TimedWord[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const word = words[i];
+
+    if (word.start !== undefined && word.end !== undefined) {
+      result.push({
+        text: word.text,
+        startSeconds: word.start,
+        endSeconds: word.end,
+        confidence: word.confidence,
+      });
+      continue;
+    }
+
+    // Find the run of untimed words and the timed neighbours around it
+    let runEnd = i;
+    while (
+      runEnd < words.length &&
+      (words[runEnd].start === undefined || words[runEnd].end === undefined)
+    ) {
+      runEnd++;
+    }
+
+    const from = result.length > 0 ? result[result.length - 1].endSeconds : words[runEnd]?.start ?? 0;
+    const to = runEnd < words.length ? words[runEnd].start! : from;
+    const step = (to - from) / (runEnd - i);
+
+    for (let k = i; k < runEnd; k++) {
+      result.push({
+        text: words[k].text,
+        startSeconds: from + step * (k - i),
+        endSeconds: from + step * (k - i + 1),
+      });
+    }
+
+    i = runEnd - 1;
+  }
+
+  return result;
+};
@@ -0,0 +1,170 @@
+import { describe, expect, it } from 'vitest';
+import { parseFfmpegSilenceOutput } from './silenceDetector';
+import { detectSilencesInWav, parseWavHeader } from './wavSilenceDetector';
+
+type Part = { seconds: number; amplitude: number };
+
+const SAMPLE_RATE = 8000;
+const TONE = 0.5;        // About -9 dBFS RMS
+const ROOM_TONE = 0.001; // About -63 dBFS RMS - well under the -30 dB threshold
+
+/**
+ * Build a WAV file from tone/near-silence parts, in memory
+ */
+const createWav = (
+  parts: Part[],
+  format: { bitsPerSample: 16 | 24 | 32; sampleFormat: 'int' | 'float'; channels: number }
+): Uint8Array => {
+  const { bitsPerSample, sampleFormat, channels } = format;
+  const bytesPerSample = bitsPerSample / 8;
+  const samples = parts.flatMap(({ seconds, amplitude }) =>
+    Array.from({ length: Math.round(seconds * SAMPLE_RATE) }, (_, i) =>
+      amplitude * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)
+    )
+  );
+  const dataLength = samples.length * channels * bytesPerSample;
+  const bytes = new Uint8Array(44 + dataLength);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string) =>
+    [...tag].forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, sampleFormat === 'float' ? 3 : 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeTag(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  samples.forEach((sample, i) => {
+    for (let channel = 0; channel < channels; channel++) {
+      const offset = 44 + (i * channels + channel) * bytesPerSample;
+      if (sampleFormat === 'float') {
+        view.setFloat32(offset, sample, true);
+      } else if (bitsPerSample === 16) {
+        view.setInt16(offset, Math.round(sample * 32767), true);
+      } else if (bitsPerSample === 24) {
+        const value = Math.round(sample * 8388607);
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setInt8(offset + 2, value >> 16);
+      } else {
+        view.setInt32(offset, Math.round(sample * 2147483647), true);
+      }
+    }
+  });
+
+  return bytes;
+};
+
+/**
+ * What ffmpeg silencedetect (n=-30dB, d=0.5) prints for the same parts
+ */
+const createFfmpegOutput = (parts: Part[], minSilenceSeconds = 0.5): string => {
+  const lines: string[] = [];
+  let time = 0;
+
+  parts.forEach(({ seconds, amplitude }, index) => {
+    if (amplitude === ROOM_TONE && seconds >= minSilenceSeconds) {
+      lines.push(`[silencedetect @ 0x1] silence_start: ${time.toFixed(3)}`);
+      if (index < parts.length - 1) {
+        lines.push(
+          `[silencedetect @ 0x1] silence_end: ${(time + seconds).toFixed(3)} | ` +
+            `silence_duration: ${seconds.toFixed(3)}`
+        );
+      }
+    }
+    time += seconds;
+  });
+
+  return lines.join('\n');
+};
+
+const totalSeconds = (parts: Part[]) => parts.reduce((sum, part) => sum + part.seconds, 0);
+
+const expectSameSilences = (parts: Part[], format: Parameters<typeof createWav>[1]) => {
+  const wav = detectSilencesInWav(createWav(parts, format));
+  const ffmpeg = parseFfmpegSilenceOutput(createFfmpegOutput(parts), totalSeconds(parts));
+
+  expect(wav.totalDurationSeconds).toBeCloseTo(ffmpeg.totalDurationSeconds, 3);
+  expect(wav.silences).toHaveLength(ffmpeg.silences.length);
+  wav.silences.forEach((silence, i) => {
+    // Within one 20ms analysis window
+    expect(Math.abs(silence.startSeconds - ffmpeg.silences[i].startSeconds)).toBeLessThan(0.021);
+    expect(Math.abs(silence.endSeconds - ffmpeg.silences[i].endSeconds)).toBeLessThan(0.021);
+  });
+};
+
+const INT16_MONO = { bitsPerSample: 16, sampleFormat: 'int', channels: 1 } as const;
+
+describe('detectSilencesInWav', () => {
+  it('matches ffmpeg on pauses between speech', () => {
+    expectSameSilences(
+      [
+        { seconds: 1, amplitude: TONE },
+        { seconds: 0.8, amplitude: ROOM_TONE },
+        { seconds: 1.5, amplitude: TONE },
+        { seconds: 1.2, amplitude: ROOM_TONE },
+        { seconds: 0.5, amplitude: TONE },
+      ],
+      INT16_MONO
+    );
+  });
+
+  it('matches ffmpeg on leading and trailing silence', () => {
+    expectSameSilences(
+      [
+        { seconds: 0.6, amplitude: ROOM_TONE },
+        { seconds: 2, amplitude: TONE },
+        { seconds: 0.9, amplitude: ROOM_TONE },
+      ],
+      INT16_MONO
+    );
+  });
+
+  it('ignores pauses shorter than the minimum, like ffmpeg', () => {
+    expectSameSilences(
+      [
+        { seconds: 1, amplitude: TONE },
+        { seconds: 0.3, amplitude: ROOM_TONE },
+        { seconds: 1, amplitude: TONE },
+      ],
+      INT16_MONO
+    );
+  });
+
+  it('matches ffmpeg for 24-bit stereo and 32-bit float audio', () => {
+    const parts = [
+      { seconds: 1, amplitude: TONE },
+      { seconds: 0.7, amplitude: ROOM_TONE },
+      { seconds: 1, amplitude: TONE },
+    ];
+    expectSameSilences(parts, { bitsPerSample: 24, sampleFormat: 'int', channels: 2 });
+    expectSameSilences(parts, { bitsPerSample: 32, sampleFormat: 'float', channels: 1 });
+  });
+});
+
+describe('parseWavHeader', () => {
+  it('reads the format and duration', () => {
+    const info = parseWavHeader(createWav([{ seconds: 2, amplitude: TONE }], INT16_MONO));
+
+    expect(info).toMatchObject({
+      sampleRate: SAMPLE_RATE,
+      channels: 1,
+      bitsPerSample: 16,
+      sampleFormat: 'int',
+      durationSeconds: 2,
+      dataOffset: 44,
+    });
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => parseWavHeader(new Uint8Array(64))).toThrow('Not a WAV file');
+  });
+});
@@ -0,0 +1,214 @@
+// ============================================
+// WAV Silence Detector
+// Finds silences in PCM WAV audio without ffmpeg
+// ============================================
+
+import type { SilenceDetectionInput } from './silenceDetector';
+
+export interface WavSilenceOptions {
+  noiseThresholdDb: number;   // Level (dBFS) below which audio counts as silence - like silencedetect n=-30dB
+  minSilenceSeconds: number;  // Minimum silence duration to report - like silencedetect d=0.5
+  windowSeconds: number;      // RMS window length
+  hysteresisDb: number;       // Silence only ends once the level rises this far above the threshold
+}
+
+const DEFAULT_OPTIONS: WavSilenceOptions = {
+  noiseThresholdDb: -30,
+  minSilenceSeconds: 0.5,
+  windowSeconds: 0.02,
+  hysteresisDb: 3,
+};
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  sampleFormat: 'int' | 'float';
+  durationSeconds: number;
+  dataOffset: number; // Byte offset of the first sample
+  dataLength: number; // Bytes of sample data
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const toDataView = (data: ArrayBuffer | Uint8Array): DataView => {
+  return data instanceof Uint8Array
+    ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+    : new DataView(data);
+};
+
+const readTag = (view: DataView, offset: number): string => {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+};
+
+/**
+ * Read the format and data location from a RIFF/WAVE header
+ * Throws if the file is not a PCM or float WAV this detector can read
+ */
+export const parseWavHeader = (data: ArrayBuffer | Uint8Array): WavInfo => {
+  const view = toDataView(data);
+
+  if (view.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file (missing RIFF/WAVE header)');
+  }
+
+  let format: Omit<WavInfo, 'durationSeconds' | 'dataOffset' | 'dataLength'> | undefined;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readTag(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      let formatTag = view.getUint16(body, true);
+      const channels = view.getUint16(body + 2, true);
+      const sampleRate = view.getUint32(body + 4, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (formatTag === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 40) {
+        formatTag = view.getUint16(body + 24, true);
+      }
+
+      if (formatTag === WAVE_FORMAT_PCM && [16, 24, 32].includes(bitsPerSample)) {
+        format = { sampleRate, channels, bitsPerSample, sampleFormat: 'int' };
+      } else if (formatTag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+        format = { sampleRate, channels, bitsPerSample, sampleFormat: 'float' };
+      } else {
+        throw new Error(
+          `Unsupported WAV format (tag ${formatTag}, ${bitsPerSample}-bit) - expected 16/24/32-bit PCM or 32-bit float`
+        );
+      }
+    } else if (chunkId === 'data') {
+      if (!format) {
+        throw new Error('WAV data chunk appears before the fmt chunk');
+      }
+
+      // Streamed WAVs may leave the size unset - use whatever is in the file
+      const dataLength = Math.min(chunkSize, view.byteLength - body);
+      const bytesPerFrame = (format.bitsPerSample / 8) * format.channels;
+
+      return {
+        ...format,
+        durationSeconds: Math.floor(dataLength / bytesPerFrame) / format.sampleRate,
+        dataOffset: body,
+        dataLength,
+      };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+
+  throw new Error('WAV file has no data chunk');
+};
+
+/**
+ * Create a reader returning the sample at a byte offset, scaled to -1..1
+ */
+const createSampleReader = (view: DataView, info: WavInfo): ((offset: number) => number) => {
+  if (info.sampleFormat === 'float') {
+    return (offset) => view.getFloat32(offset, true);
+  }
+
+  switch (info.bitsPerSample) {
+    case 16:
+      return (offset) => view.getInt16(offset, true) / 32768;
+    case 24:
+      return (offset) => {
+        const value =
+          view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        return value / 8388608;
+      };
+    default:
+      return (offset) => view.getInt32(offset, true) / 2147483648;
+  }
+};
+
+/**
+ * RMS level (dBFS) of each window, across all channels
+ */
+export const computeWindowLevels = (
+  data: ArrayBuffer | Uint8Array,
+  windowSeconds: number = DEFAULT_OPTIONS.windowSeconds
+): { levelsDb: number[]; windowSeconds: number; info: WavInfo } => {
+  const info = parseWavHeader(data);
+  const view = toDataView(data);
+  const readSample = createSampleReader(view, info);
+
+  const bytesPerSample = info.bitsPerSample / 8;
+  const bytesPerFrame = bytesPerSample * info.channels;
+  const totalFrames = Math.floor(info.dataLength / bytesPerFrame);
+  const framesPerWindow = Math.max(1, Math.round(windowSeconds * info.sampleRate));
+
+  const levelsDb: number[] = [];
+  for (let start = 0; start < totalFrames; start += framesPerWindow) {
+    const end = Math.min(start + framesPerWindow, totalFrames);
+    let sumSquares = 0;
+
+    for (let frame = start; frame < end; frame++) {
+      const frameOffset = info.dataOffset + frame * bytesPerFrame;
+      for (let channel = 0; channel < info.channels; channel++) {
+        const sample = readSample(frameOffset + channel * bytesPerSample);
+        sumSquares += sample * sample;
+      }
+    }
+
+    const rms = Math.sqrt(sumSquares / ((end - start) * info.channels));
+    levelsDb.push(rms > 0 ? 20 * Math.log10(rms) : -Infinity);
+  }
+
+  return { levelsDb, windowSeconds: framesPerWindow / info.sampleRate, info };
+};
+
+/**
+ * Detect silences in a PCM WAV file
+ * Returns the same structure as parseFfmpegSilenceOutput, ready for processAvatarWithSilences
+ */
+export const detectSilencesInWav = (
+  data: ArrayBuffer | Uint8Array,
+  options: Partial<WavSilenceOptions> = {}
+): SilenceDetectionInput => {
+  const { noiseThresholdDb, minSilenceSeconds, windowSeconds, hysteresisDb } = {
+    ...DEFAULT_OPTIONS,
+    ...options,
+  };
+
+  const levels = computeWindowLevels(data, windowSeconds);
+  const { levelsDb, info } = levels;
+  const windowLength = levels.windowSeconds;
+
+  const silences: SilenceDetectionInput['silences'] = [];
+  let silenceStart: number | undefined;
+
+  const closeSilence = (endSeconds: number) => {
+    if (silenceStart !== undefined && endSeconds - silenceStart >= minSilenceSeconds) {
+      silences.push({ startSeconds: silenceStart, endSeconds });
+    }
+    silenceStart = undefined;
+  };
+
+  for (let i = 0; i < levelsDb.length; i++) {
+    const level = levelsDb[i];
+
+    if (silenceStart === undefined) {
+      if (level < noiseThresholdDb) silenceStart = i * windowLength;
+    } else if (level > noiseThresholdDb + hysteresisDb) {
+      closeSilence(i * windowLength);
+    }
+  }
+  closeSilence(info.durationSeconds);
+
+  return {
+    silences,
+    totalDurationSeconds: info.durationSeconds,
+  };
+};
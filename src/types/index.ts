@@ -31,7 +31,15 @@ export interface SfxConfig {
 export interface ProjectSettings {
   silenceThreshold: number;      // seconds - default: 0.5
   minClipDuration: number;       // seconds - default: 1.0
+  cutPreRoll: number;            // seconds of lead-in kept before speech at a cut - default: 0.1
+  cutPostRoll: number;           // seconds of tail kept after speech at a cut - default: 0.15
+  audioCrossfade: number;        // seconds of audio crossfade at cut points - default: 0.05
+  layoutChangeAudioOffset: number; // seconds - >0 J-cut, <0 L-cut at layout changes - default: 0
+  punchInScale: number;          // zoom alternated at jump cuts - default: 1.15 (1 disables)
+  helperMinPlaybackRate: number; // slowest rate used to stretch short helper videos - default: 0.8
+  helperClipFill: HelperClipFill; // loop or freeze helper videos still too short - default: 'freeze'
   transitionSfxProbability: number; // 0-1 - default: 0.7
+  randomSeed: number;            // seeds transition and SFX choices - default: 1
   musicVolume: number;           // dB - default: -20
   captionStyle: CaptionStyle;
 }
@@ -48,8 +56,19 @@ export interface ScriptSegment {
   keywords: string[];
   importance: ImportanceLevel;
   hasKeyPhrase: boolean;
+  directives?: ScriptDirectives; // Inline [key:value] markup from the script
 }
 
+export interface ScriptDirectives {
+  layout?: LayoutType;
+  asset?: string;              // Helper asset name or path
+  overlay?: string;            // Text overlay to show on this segment
+  transition?: TransitionType; // Transition into this segment
+  sfx?: DirectiveSfx;
+}
+
+export type DirectiveSfx = 'click' | 'swoosh' | 'impact' | 'none';
+
 export interface Word {
   text: string;
   startFrame: number;
@@ -74,13 +93,19 @@ export interface TimelineItem {
   durationFrames: number;
   layout: LayoutType;
   avatarClip: AvatarClip;
+  avatarSubClips?: AvatarClip[]; // Set when silence trimming cuts inside this item
   helperAsset?: HelperAsset;
   textOverlay?: TextOverlay;
   caption: CaptionData;
   transition: TransitionConfig;
 }
 
-export type LayoutType = 'A' | 'B' | 'C';
+export const BUILT_IN_LAYOUTS = ['A', 'B', 'C', 'D', 'E', 'F'] as const;
+
+export type BuiltInLayoutType = (typeof BUILT_IN_LAYOUTS)[number];
+
+// A built-in layout or the id of one added with registerLayout
+export type LayoutType = BuiltInLayoutType | (string & {});
 
 // ----- Avatar -----
 
@@ -88,12 +113,32 @@ export interface AvatarClip {
   src: string;
   startFrame: number;
   endFrame: number;
-  originalStartFrame: number; // before silence removal
-  originalEndFrame: number;
-  crop?: CropConfig;
+  originalStartFrame: number; // before silence removal - in output frames, as Remotion's startFrom
+  originalEndFrame: number;   // seeks by time, whatever sourceFps is
+  sourceFps?: number;         // Frame rate of the avatar file, when probed
+  crop?: CropConfig; // Punch-in zoom, set by planPunchIns
   volume: number;
+  playbackRate?: number;   // Source frames per output frame - set when fitting a target duration
+  audio?: AvatarClipAudio; // Set when the audio range differs from the picture
 }
 
+/**
+ * Audio range of an avatar clip, in output frames
+ * Uses the same source mapping as the picture, so it can run into the handles
+ * either side of it (crossfades at cuts, J-cuts and L-cuts)
+ */
+export interface AvatarClipAudio {
+  startFrame: number;
+  endFrame: number;
+  fadeInFrames: number;
+  fadeOutFrames: number;
+}
+
+/**
+ * Zoom into the avatar frame
+ * x/y/width/height are the region kept in frame, as fractions of the frame;
+ * the zoom is anchored on the region's centre
+ */
 export interface CropConfig {
   x: number;
   y: number;
@@ -109,11 +154,20 @@ export interface HelperAsset {
   src: string;
   title: string;
   keywords: string[];
-  startFrame?: number;
+  startFrame?: number;     // Range in the file, in its own frames - at sourceFps, else the output fps
   endFrame?: number;
+  sourceFps?: number;      // Frame rate of the file, when probed
   fit: 'cover' | 'contain';
+  description?: string;    // From sidecar metadata
+  synonyms?: string[];     // Weaker matches than keywords
+  doNotUse?: boolean;      // Never picked by the asset matcher
+  durationFrames?: number; // Length of the video file in its own frames, when known
+  playbackRate?: number;   // Set by scheduleHelperClips to stretch or squeeze the range
+  fill?: HelperClipFill;   // Set by scheduleHelperClips when the range is shorter than the item
 }
 
+export type HelperClipFill = 'loop' | 'freeze';
+
 // ----- Text & Captions -----
 
 export interface TextOverlay {
@@ -169,6 +223,7 @@ export interface TransitionConfig {
   durationFrames: number;
   sfx?: string;
   sfxVolume: number;
+  audioOffsetFrames?: number; // >0 J-cut (audio leads the picture change), <0 L-cut (audio trails it)
 }
 
 export type TransitionType =
@@ -182,6 +237,15 @@ export type TransitionType =
   | 'flash'
   | 'none';
 
+// ----- Transcription -----
+
+export interface TimedWord {
+  text: string;
+  startSeconds: number;
+  endSeconds: number;
+  confidence?: number; // 0-1 if the transcriber provides it
+}
+
 // ----- Silence Detection -----
 
 export interface SilenceRegion {
@@ -204,6 +268,15 @@ export interface AssetMatch {
   asset: HelperAsset;
   relevanceScore: number;
   matchedKeywords: string[];
+  hits?: KeywordHit[]; // How each keyword matched, for explaining the match
+}
+
+export interface KeywordHit {
+  segmentKeyword: string;
+  assetKeyword: string;
+  via: 'exact' | 'stem' | 'synonym' | 'partial' | 'metadata';
+  partial: boolean; // Counted at partial weight
+  source?: string;  // Synonym entry or metadata field that produced the hit
 }
 
 // ----- Component Props -----
@@ -251,7 +324,15 @@ export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
   settings: {
     silenceThreshold: 0.5,
     minClipDuration: 1.0,
+    cutPreRoll: 0.1,
+    cutPostRoll: 0.15,
+    audioCrossfade: 0.05,
+    layoutChangeAudioOffset: 0,
+    punchInScale: 1.15,
+    helperMinPlaybackRate: 0.8,
+    helperClipFill: 'freeze',
     transitionSfxProbability: 0.7,
+    randomSeed: 1,
     musicVolume: -20,
     captionStyle: {
       font: {
@@ -269,20 +350,64 @@ export const DEFAULT_PROJECT_CONFIG: ProjectConfig = {
   },
 };
 
+// Area of the canvas, as fractions of its width and height
+export interface LayoutRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CaptionPlacement = 'top' | 'center' | 'bottom' | 'none';
+
+export interface LayoutConfig {
+  name: string;
+  avatarRegion?: LayoutRegion;        // Where the avatar shows - none when only its audio plays
+  helperRegion?: LayoutRegion;        // Where the helper asset shows
+  requiresHelper: boolean;            // Needs a helper asset - falls back to A without one
+  captionPlacement: CaptionPlacement; // 'none' when the layout shows the words itself
+}
+
+export const FULL_CANVAS: LayoutRegion = { x: 0, y: 0, width: 1, height: 1 };
+
 export const LAYOUT_CONFIG = {
   A: {
     name: 'Full Avatar',
-    avatarHeight: 1, // 100%
-    helperHeight: 0,
+    avatarRegion: FULL_CANVAS,
+    requiresHelper: false,
+    captionPlacement: 'bottom',
   },
   B: {
     name: 'Split Screen',
-    avatarHeight: 0.4, // 40%
-    helperHeight: 0.6, // 60%
+    avatarRegion: { x: 0, y: 0.6, width: 1, height: 0.4 }, // Bottom 40%
+    helperRegion: { x: 0, y: 0, width: 1, height: 0.6 },   // Top 60%
+    requiresHelper: true,
+    captionPlacement: 'bottom',
   },
   C: {
     name: 'Full Helper',
-    avatarHeight: 0.2, // 20% PiP
-    helperHeight: 1, // 100%
+    avatarRegion: { x: 0.037, y: 0.729, width: 0.25, height: 0.25 }, // PiP, bottom left
+    helperRegion: FULL_CANVAS,
+    requiresHelper: true,
+    captionPlacement: 'bottom',
+  },
+  D: {
+    name: 'Side by Side',
+    avatarRegion: { x: 0, y: 0, width: 0.5, height: 1 },   // Left half
+    helperRegion: { x: 0.5, y: 0, width: 0.5, height: 1 }, // Right half
+    requiresHelper: true,
+    captionPlacement: 'bottom',
+  },
+  E: {
+    name: 'Blurred Backdrop',
+    avatarRegion: { x: 0.15, y: 0.15, width: 0.7, height: 0.7 }, // Card over the backdrop
+    helperRegion: FULL_CANVAS,                                   // Blurred, scaled helper behind
+    requiresHelper: true,
+    captionPlacement: 'bottom',
+  },
+  F: {
+    name: 'Text Card',
+    requiresHelper: false,
+    captionPlacement: 'none', // The card is the words - avatar audio only
   },
-} as const;
+} satisfies Record<BuiltInLayoutType, LayoutConfig>;
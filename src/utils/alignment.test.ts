@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import type { TimedWord } from '../types';
+import { alignWordsToTranscript, numberToWords, tokenSimilarity } from './alignment';
+
+// "word@start-end" timings, in seconds
+const transcript = (...words: string[]): TimedWord[] =>
+  words.map((entry) => {
+    const [text, times] = entry.split('@');
+    const [startSeconds, endSeconds] = times.split('-').map(Number);
+    return { text, startSeconds, endSeconds };
+  });
+
+describe('numberToWords', () => {
+  it('spells out numbers', () => {
+    expect(numberToWords(7)).toBe('seven');
+    expect(numberToWords(26)).toBe('twenty six');
+    expect(numberToWords(2026)).toBe('two thousand twenty six');
+  });
+});
+
+describe('tokenSimilarity', () => {
+  it('ignores case and punctuation', () => {
+    expect(tokenSimilarity('Bitcoin,', 'bitcoin')).toBe(1);
+    expect(tokenSimilarity("it's", 'its')).toBe(1);
+  });
+
+  it('matches digits with spoken numbers', () => {
+    expect(tokenSimilarity('50', 'fifty')).toBeGreaterThanOrEqual(0.8);
+    expect(tokenSimilarity('2026', 'twenty')).toBeGreaterThanOrEqual(0.8);
+    expect(tokenSimilarity('50', 'heater')).toBe(0);
+  });
+
+  it('matches a part of a compound word', () => {
+    expect(tokenSimilarity('50-gallon', 'gallon')).toBeGreaterThanOrEqual(0.9);
+  });
+});
+
+describe('alignWordsToTranscript', () => {
+  it('takes the timing of each matched word', () => {
+    const aligned = alignWordsToTranscript(
+      ['It', 'mines', 'Bitcoin.'],
+      transcript('it@0-0.2', 'mines@0.2-0.6', 'bitcoin@0.6-1.1')
+    );
+
+    expect(aligned).toEqual([
+      { startSeconds: 0, endSeconds: 0.2, matched: true },
+      { startSeconds: 0.2, endSeconds: 0.6, matched: true },
+      { startSeconds: 0.6, endSeconds: 1.1, matched: true },
+    ]);
+  });
+
+  it("doesn't let a word heard as two shift the words after it", () => {
+    const aligned = alignWordsToTranscript(
+      ['the', 'Superheat', 'H1', 'heats'],
+      transcript('the@0-0.2', 'super@0.2-0.5', 'heat@0.5-0.8', 'h1@0.8-1.2', 'heats@1.2-1.6')
+    );
+
+    expect(aligned.map((word) => word.startSeconds)).toEqual([0, 0.2, 0.8, 1.2]);
+  });
+
+  it('folds a spoken number into its digits', () => {
+    const aligned = alignWordsToTranscript(
+      ['about', '26', 'dollars'],
+      transcript('about@0-0.3', 'twenty@0.3-0.6', 'six@0.6-0.9', 'dollars@0.9-1.3')
+    );
+
+    expect(aligned[1]).toMatchObject({ startSeconds: 0.3, endSeconds: 0.9, matched: true });
+    expect(aligned[2].startSeconds).toBe(0.9);
+  });
+
+  it('interpolates words the transcript left out', () => {
+    const aligned = alignWordsToTranscript(
+      ['it', 'really', 'works'],
+      transcript('it@0-0.2', 'works@1-1.4')
+    );
+
+    expect(aligned[1].matched).toBe(false);
+    expect(aligned[1].startSeconds).toBeGreaterThanOrEqual(0.2);
+    expect(aligned[1].endSeconds).toBeLessThanOrEqual(1);
+  });
+});
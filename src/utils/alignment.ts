@@ -0,0 +1,343 @@
+// ============================================
+// Script-to-Transcript Alignment Utilities
+// ============================================
+
+import type { TimedWord } from '../types';
+import { estimateSyllables } from './timing';
+
+export interface AlignedWordTiming {
+  startSeconds: number;
+  endSeconds: number;
+  matched: boolean; // false if the timing was interpolated
+}
+
+/**
+ * Cost of skipping a word on either side of the alignment.
+ * Substitutions cost (1 - similarity), so two similar words are always
+ * paired before being skipped
+ */
+const GAP_COST = 0.7;
+
+/**
+ * Minimum similarity for an aligned pair to count as a real match
+ */
+const MATCH_THRESHOLD = 0.5;
+
+/**
+ * Inserted transcript words (e.g. "twenty six" for "26") are folded into a
+ * neighbouring script word if they are within this many seconds of it
+ */
+const MAX_ABSORB_GAP_SECONDS = 0.25;
+
+const ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine',
+  'ten', 'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen',
+  'seventeen', 'eighteen', 'nineteen',
+];
+
+const TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+
+/**
+ * Spell out a non-negative integer, e.g. 2026 -> "two thousand twenty six"
+ */
+export const numberToWords = (n: number): string => {
+  if (n < 20) return ONES[n];
+  if (n < 100) return `${TENS[Math.floor(n / 10)]}${n % 10 ? ` ${ONES[n % 10]}` : ''}`;
+  if (n < 1000) {
+    return `${ONES[Math.floor(n / 100)]} hundred${n % 100 ? ` ${numberToWords(n % 100)}` : ''}`;
+  }
+  if (n < 1000000) {
+    return `${numberToWords(Math.floor(n / 1000))} thousand${n % 1000 ? ` ${numberToWords(n % 1000)}` : ''}`;
+  }
+  return String(n);
+};
+
+/**
+ * Possible spoken forms of a number token
+ * Four-digit years are also read in pairs: 2026 -> "twenty twenty six"
+ */
+const spokenNumberForms = (digits: string): string[] => {
+  const n = parseInt(digits, 10);
+  const forms = [numberToWords(n)];
+
+  if (digits.length === 4 && n % 100 !== 0) {
+    forms.push(`${numberToWords(Math.floor(n / 100))} ${numberToWords(n % 100)}`);
+  }
+
+  return forms;
+};
+
+/**
+ * Normalize a token for comparison - lowercase, no punctuation
+ */
+export const normalizeToken = (token: string): string => {
+  return token
+    .toLowerCase()
+    .replace(/&/g, 'and')
+    .replace(/%/g, 'percent')
+    .replace(/[’']/g, '')
+    .replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Levenshtein edit distance
+ */
+const editDistance = (a: string, b: string): number => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      curr.push(Math.min(prev[j] + 1, curr[j - 1] + 1, substitution));
+    }
+    prev = curr;
+  }
+
+  return prev[b.length];
+};
+
+/**
+ * Similarity of two tokens (0-1)
+ * Tolerates punctuation, small spelling differences, hyphenated compounds
+ * and numbers written as digits on one side and words on the other
+ */
+export const tokenSimilarity = (a: string, b: string): number => {
+  const na = normalizeToken(a);
+  const nb = normalizeToken(b);
+
+  if (na.length === 0 || nb.length === 0) return 0;
+  if (na === nb) return 1;
+
+  const ratio = 1 - editDistance(na, nb) / Math.max(na.length, nb.length);
+
+  // Compare each part of a hyphenated/compound token ("50-gallon", "full-on")
+  const partsA = a.split(/[-–—/]+/).map(normalizeToken).filter(Boolean);
+  const partsB = b.split(/[-–—/]+/).map(normalizeToken).filter(Boolean);
+  let partScore = 0;
+  if (partsA.length > 1 || partsB.length > 1) {
+    for (const pa of partsA) {
+      for (const pb of partsB) {
+        partScore = Math.max(partScore, tokenSimilarity(pa, pb) * 0.9);
+      }
+    }
+  }
+
+  // Digits vs spoken words: "50" ~ "fifty", "2026" ~ "twenty"
+  let numberScore = 0;
+  const digits = /^\d+$/.test(na) ? na : /^\d+$/.test(nb) ? nb : undefined;
+  const other = digits === na ? nb : na;
+  if (digits && !/\d/.test(other)) {
+    for (const form of spokenNumberForms(digits)) {
+      const spoken = form.split(' ');
+      if (spoken[0] === other || spoken.join('') === other) {
+        numberScore = 0.8;
+      }
+    }
+  }
+
+  return Math.max(ratio, partScore, numberScore);
+};
+
+/**
+ * Align script words to transcript words and return a timing for each script word
+ *
+ * Uses a global (Needleman-Wunsch) alignment so one mis-heard word can't
+ * shift everything after it. Script words without a counterpart get times
+ * interpolated between their neighbours, weighted by syllables
+ */
+export const alignWordsToTranscript = (
+  scriptWords: string[],
+  transcript: TimedWord[]
+): AlignedWordTiming[] => {
+  const n = scriptWords.length;
+  const m = transcript.length;
+
+  if (n === 0) return [];
+  if (m === 0) {
+    throw new Error('Cannot align script to an empty transcript');
+  }
+
+  // cost[i][j] = best cost aligning the first i script words with the first j transcript words
+  const cost: Float64Array[] = [];
+  const move: Uint8Array[] = []; // 0 = pair, 1 = skip script word, 2 = skip transcript word
+  for (let i = 0; i <= n; i++) {
+    cost.push(new Float64Array(m + 1));
+    move.push(new Uint8Array(m + 1));
+  }
+
+  for (let i = 1; i <= n; i++) {
+    cost[i][0] = i * GAP_COST;
+    move[i][0] = 1;
+  }
+  for (let j = 1; j <= m; j++) {
+    cost[0][j] = j * GAP_COST;
+    move[0][j] = 2;
+  }
+
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const pair = cost[i - 1][j - 1] + (1 - tokenSimilarity(scriptWords[i - 1], transcript[j - 1].text));
+      const skipScript = cost[i - 1][j] + GAP_COST;
+      const skipTranscript = cost[i][j - 1] + GAP_COST;
+
+      // On ties prefer skipping the transcript word, so a script word pairs with the
+      // earliest candidate and the leftovers follow it ("2026" -> "twenty" + "twenty six")
+      if (pair <= skipScript && pair < skipTranscript - 1e-9) {
+        cost[i][j] = pair;
+        move[i][j] = 0;
+      } else if (skipTranscript <= skipScript) {
+        cost[i][j] = skipTranscript;
+        move[i][j] = 2;
+      } else {
+        cost[i][j] = skipScript;
+        move[i][j] = 1;
+      }
+    }
+  }
+
+  // Trace back: which transcript word (if any) each script word paired with,
+  // and which transcript words were left over
+  const pairedWith: (number | undefined)[] = new Array(n).fill(undefined);
+  const leftover: number[] = [];
+  let i = n;
+  let j = m;
+  while (i > 0 || j > 0) {
+    const step = move[i][j];
+    if (i > 0 && j > 0 && step === 0) {
+      if (tokenSimilarity(scriptWords[i - 1], transcript[j - 1].text) >= MATCH_THRESHOLD) {
+        pairedWith[i - 1] = j - 1;
+      } else {
+        leftover.push(j - 1);
+      }
+      i--;
+      j--;
+    } else if (i > 0 && (j === 0 || step === 1)) {
+      i--;
+    } else {
+      leftover.push(j - 1);
+      j--;
+    }
+  }
+
+  const timings: (AlignedWordTiming | undefined)[] = pairedWith.map((index) =>
+    index === undefined
+      ? undefined
+      : {
+          startSeconds: transcript[index].startSeconds,
+          endSeconds: transcript[index].endSeconds,
+          matched: true,
+        }
+  );
+
+  // Fold runs of leftover transcript words into the matched script words around them.
+  // Each leftover goes to whichever neighbour it resembles more ("fifty" belongs to
+  // "50-gallon", "twenty six" to "2026"), ties going to the previous word
+  const transcriptToScript = new Map<number, number>();
+  pairedWith.forEach((index, scriptIndex) => {
+    if (index !== undefined) transcriptToScript.set(index, scriptIndex);
+  });
+
+  const sortedLeftover = leftover.sort((a, b) => a - b);
+  let r = 0;
+  while (r < sortedLeftover.length) {
+    let runEnd = r;
+    while (
+      runEnd + 1 < sortedLeftover.length &&
+      sortedLeftover[runEnd + 1] === sortedLeftover[runEnd] + 1
+    ) {
+      runEnd++;
+    }
+
+    const first = sortedLeftover[r];
+    const last = sortedLeftover[runEnd];
+    const prevOwner = transcriptToScript.get(first - 1);
+    const nextOwner = transcriptToScript.get(last + 1);
+
+    // Index of the first leftover that belongs to the next word
+    let split = last + 1;
+    if (nextOwner !== undefined) {
+      for (let k = first; k <= last; k++) {
+        const toPrev =
+          prevOwner === undefined ? 0 : tokenSimilarity(transcript[k].text, scriptWords[prevOwner]);
+        const toNext = tokenSimilarity(transcript[k].text, scriptWords[nextOwner]);
+        if (toNext > toPrev) {
+          split = k;
+          break;
+        }
+      }
+    }
+
+    if (prevOwner !== undefined) {
+      const timing = timings[prevOwner]!;
+      for (let k = first; k < split; k++) {
+        if (transcript[k].startSeconds - timing.endSeconds > MAX_ABSORB_GAP_SECONDS) break;
+        timing.endSeconds = Math.max(timing.endSeconds, transcript[k].endSeconds);
+      }
+    }
+    if (nextOwner !== undefined) {
+      const timing = timings[nextOwner]!;
+      for (let k = last; k >= split; k--) {
+        if (timing.startSeconds - transcript[k].endSeconds > MAX_ABSORB_GAP_SECONDS) break;
+        timing.startSeconds = Math.min(timing.startSeconds, transcript[k].startSeconds);
+      }
+    }
+
+    r = runEnd + 1;
+  }
+
+  return interpolateUnmatched(scriptWords, timings, transcript);
+};
+
+/**
+ * Fill in timings for script words that had no transcript counterpart
+ */
+const interpolateUnmatched = (
+  scriptWords: string[],
+  timings: (AlignedWordTiming | undefined)[],
+  transcript: TimedWord[]
+): AlignedWordTiming[] => {
+  const result = [...timings];
+  const transcriptStart = transcript[0].startSeconds;
+  const transcriptEnd = transcript[transcript.length - 1].endSeconds;
+
+  let runStart = -1;
+  for (let k = 0; k <= result.length; k++) {
+    const isGap = k < result.length && result[k] === undefined;
+
+    if (isGap && runStart === -1) {
+      runStart = k;
+    }
+    if (isGap || runStart === -1) continue;
+
+    // Run of unmatched words [runStart, k)
+    const prev = runStart > 0 ? result[runStart - 1]! : undefined;
+    const next = k < result.length ? result[k]! : undefined;
+    let from = prev ? prev.endSeconds : transcriptStart;
+    const to = next ? next.startSeconds : transcriptEnd;
+
+    const weights = scriptWords.slice(runStart, k).map((w) => estimateSyllables(w));
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+    // No room between neighbours - share the previous word's time instead
+    if (to - from < 0.1 * weights.length && prev) {
+      from = (prev.startSeconds + prev.endSeconds) / 2;
+      prev.endSeconds = from;
+    }
+
+    let cursor = from;
+    for (let w = 0; w < weights.length; w++) {
+      const duration = (Math.max(to - from, 0) * weights[w]) / totalWeight;
+      result[runStart + w] = {
+        startSeconds: cursor,
+        endSeconds: cursor + duration,
+        matched: false,
+      };
+      cursor += duration;
+    }
+
+    runStart = -1;
+  }
+
+  return result as AlignedWordTiming[];
+};
@@ -1,3 +1,5 @@
 // Utils barrel export
 export * from './timing';
 export * from './keywords';
+export * from './alignment';
+export * from './textNormalization';
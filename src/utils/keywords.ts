@@ -3,6 +3,7 @@
 // ============================================
 
 import type { ImportanceLevel } from '../types';
+import type { TextNormalizer } from './textNormalization';
 
 /**
  * Common stop words to filter out
@@ -25,6 +26,14 @@ const STOP_WORDS = new Set([
   'actually', 'really', 'basically', 'literally', 'um', 'uh', 'yeah', 'okay',
 ]);
 
+/**
+ * Hesitation sounds that carry no meaning - safe to cut from a take
+ * (unlike "like" or "so", which are often real words)
+ */
+export const FILLER_WORDS = [
+  'um', 'umm', 'uh', 'uhh', 'uhm', 'er', 'erm', 'ah', 'eh', 'hmm', 'mm', 'mhm',
+];
+
 /**
  * High importance indicators - words/phrases that signal key content
  */
@@ -129,10 +138,21 @@ export const determineImportance = (text: string): ImportanceLevel => {
 
 /**
  * Check if a word should be highlighted as a keyword in captions
+ * With a normalizer, other forms of a keyword ("miners" for "mining") count too
  */
-export const isHighlightWord = (word: string, segmentKeywords: string[]): boolean => {
+export const isHighlightWord = (
+  word: string,
+  segmentKeywords: string[],
+  normalizer?: TextNormalizer
+): boolean => {
   const normalized = normalizeWord(word);
-  return segmentKeywords.includes(normalized) || hasHighImportanceIndicator(word);
+  if (segmentKeywords.includes(normalized) || hasHighImportanceIndicator(word)) {
+    return true;
+  }
+
+  return normalizer
+    ? segmentKeywords.some((keyword) => normalizer.stem(keyword) === normalizer.stem(word))
+    : false;
 };
 
 /**
@@ -170,17 +190,20 @@ export const extractKeyPhrases = (text: string): string[] => {
 
 /**
  * Calculate relevance score between keywords and a target
+ * With a normalizer, keywords are compared by stem
  */
 export const calculateRelevanceScore = (
   sourceKeywords: string[],
-  targetKeywords: string[]
+  targetKeywords: string[],
+  normalizer?: TextNormalizer
 ): number => {
   if (sourceKeywords.length === 0 || targetKeywords.length === 0) {
     return 0;
   }
 
-  const sourceSet = new Set(sourceKeywords.map(normalizeWord));
-  const targetSet = new Set(targetKeywords.map(normalizeWord));
+  const normalize = normalizer ? normalizer.stem : normalizeWord;
+  const sourceSet = new Set(sourceKeywords.map(normalize));
+  const targetSet = new Set(targetKeywords.map(normalize));
 
   let matches = 0;
   for (const keyword of sourceSet) {
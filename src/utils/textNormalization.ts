@@ -0,0 +1,256 @@
+// ============================================
+// Text Normalization
+// Stemming, lemmas and synonym expansion for keyword matching
+// ============================================
+
+import { normalizeWord } from './keywords';
+import defaultSynonyms from './synonyms.json';
+
+/**
+ * Alias -> term(s) it stands for, e.g. { "btc": "bitcoin", "shower": ["hot water"] }
+ * Single-word terms also expand back to the alias
+ */
+export type SynonymDictionary = Record<string, string | string[]>;
+
+export interface SynonymExpansion {
+  stem: string;   // Stem of the expanded term
+  source: string; // Dictionary entry that produced it, e.g. "btc -> bitcoin"
+}
+
+export interface TextNormalizer {
+  normalize: (word: string) => string;                // Lowercase letters and digits only
+  stem: (word: string) => string;                     // Lemma or stem used for comparisons
+  expand: (word: string) => SynonymExpansion[];       // Synonyms and aliases of a word
+}
+
+export interface TextNormalizerOptions {
+  stemmer: (word: string) => string; // Gets normalized words - pass (w) => w to disable stemming
+  lemmas: Record<string, string>;    // Irregular forms looked up before stemming
+  synonyms: SynonymDictionary;
+}
+
+/**
+ * Irregular forms a suffix stemmer can't reduce
+ */
+export const DEFAULT_LEMMAS: Record<string, string> = {
+  children: 'child',
+  people: 'person',
+  men: 'man',
+  women: 'woman',
+  mice: 'mouse',
+  feet: 'foot',
+  teeth: 'tooth',
+  better: 'good',
+  best: 'good',
+  worse: 'bad',
+  worst: 'bad',
+  ran: 'run',
+  ate: 'eat',
+  built: 'build',
+  bought: 'buy',
+  made: 'make',
+  paid: 'pay',
+  spent: 'spend',
+  won: 'win',
+};
+
+// ----- Porter stemmer -----
+
+const isConsonant = (word: string, i: number): boolean => {
+  const c = word[i];
+  if ('aeiou'.includes(c)) return false;
+  if (c === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+};
+
+/**
+ * Number of vowel-consonant sequences - the m in [C](VC){m}[V]
+ */
+const measure = (stem: string): number => {
+  let m = 0;
+  for (let i = 1; i < stem.length; i++) {
+    if (isConsonant(stem, i) && !isConsonant(stem, i - 1)) m++;
+  }
+  return m;
+};
+
+const hasVowel = (stem: string): boolean => {
+  for (let i = 0; i < stem.length; i++) {
+    if (!isConsonant(stem, i)) return true;
+  }
+  return false;
+};
+
+const endsWithDoubleConsonant = (word: string): boolean => {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+};
+
+// consonant-vowel-consonant, where the last consonant isn't w, x or y
+const endsWithCvc = (word: string): boolean => {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1])
+  );
+};
+
+/**
+ * Replace the longest matching suffix if the remaining stem passes the condition
+ * Returns undefined when no suffix matches
+ */
+const replaceSuffix = (
+  word: string,
+  rules: [string, string][],
+  condition: (stem: string, suffix: string) => boolean
+): string | undefined => {
+  const rule = rules
+    .filter(([suffix]) => word.endsWith(suffix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  if (!rule) return undefined;
+
+  const stem = word.slice(0, word.length - rule[0].length);
+  return condition(stem, rule[0]) ? stem + rule[1] : word;
+};
+
+const STEP_2_RULES: [string, string][] = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'],
+  ['logi', 'log'],
+];
+
+const STEP_3_RULES: [string, string][] = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'],
+  ['ful', ''], ['ness', ''],
+];
+
+const STEP_4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion',
+  'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize',
+];
+
+/**
+ * Porter stemmer - "mining" -> "mine", "heaters" -> "heater", "relational" -> "relat"
+ * Expects a lowercase word
+ */
+export const porterStem = (word: string): string => {
+  if (word.length <= 2) return word;
+
+  let w = word;
+
+  // Step 1a: plurals
+  w = replaceSuffix(w, [['sses', 'ss'], ['ies', 'i'], ['ss', 'ss'], ['s', '']], () => true) ?? w;
+
+  // Step 1b: -eed, -ed, -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = ['ed', 'ing'].find((s) => w.endsWith(s) && hasVowel(w.slice(0, -s.length)));
+    if (suffix) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+        w += 'e';
+      } else if (endsWithDoubleConsonant(w) && !'lsz'.includes(w[w.length - 1])) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) {
+    w = `${w.slice(0, -1)}i`;
+  }
+
+  // Steps 2-3: double and single suffixes
+  w = replaceSuffix(w, STEP_2_RULES, (stem) => measure(stem) > 0) ?? w;
+  w = replaceSuffix(w, STEP_3_RULES, (stem) => measure(stem) > 0) ?? w;
+
+  // Step 4: strip suffixes from longer stems
+  w =
+    replaceSuffix(
+      w,
+      STEP_4_SUFFIXES.map((suffix) => [suffix, '']),
+      (stem, suffix) =>
+        measure(stem) > 1 && (suffix !== 'ion' || stem.endsWith('s') || stem.endsWith('t'))
+    ) ?? w;
+
+  // Step 5: final -e and -ll
+  if (w.endsWith('e')) {
+    const stem = w.slice(0, -1);
+    const m = measure(stem);
+    if (m > 1 || (m === 1 && !endsWithCvc(stem))) w = stem;
+  }
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith('l')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+};
+
+// ----- Normalizer -----
+
+const DEFAULT_OPTIONS: TextNormalizerOptions = {
+  stemmer: porterStem,
+  lemmas: DEFAULT_LEMMAS,
+  synonyms: defaultSynonyms,
+};
+
+/**
+ * Create a text normalizer
+ * Pass synonyms to replace the default dictionary, or spread DEFAULT_SYNONYMS to extend it
+ */
+export const createTextNormalizer = (
+  options: Partial<TextNormalizerOptions> = {}
+): TextNormalizer => {
+  const { stemmer, lemmas, synonyms } = { ...DEFAULT_OPTIONS, ...options };
+  const stems = new Map<string, string>();
+
+  const stem = (word: string): string => {
+    const normalized = normalizeWord(word);
+    let result = stems.get(normalized);
+    if (result === undefined) {
+      result = stemmer(lemmas[normalized] ?? normalized);
+      stems.set(normalized, result);
+    }
+    return result;
+  };
+
+  // Index expansions by stem, so "showers" finds the "shower" entry
+  const index = new Map<string, SynonymExpansion[]>();
+  const addExpansion = (from: string, expansion: SynonymExpansion) => {
+    const key = stem(from);
+    if (expansion.stem === key) return;
+    index.set(key, [...(index.get(key) ?? []), expansion]);
+  };
+
+  for (const [alias, value] of Object.entries(synonyms)) {
+    for (const term of Array.isArray(value) ? value : [value]) {
+      const source = `${alias} -> ${term}`;
+      const words = term.split(/[-_\s]+/).filter((word) => normalizeWord(word).length > 0);
+
+      for (const word of words) {
+        addExpansion(alias, { stem: stem(word), source });
+      }
+      if (words.length === 1) {
+        addExpansion(words[0], { stem: stem(alias), source });
+      }
+    }
+  }
+
+  return {
+    normalize: normalizeWord,
+    stem,
+    expand: (word) => index.get(stem(word)) ?? [],
+  };
+};
+
+export const DEFAULT_SYNONYMS: SynonymDictionary = defaultSynonyms;
+
+export const DEFAULT_TEXT_NORMALIZER = createTextNormalizer();
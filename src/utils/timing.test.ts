@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { convertFrame } from './timing';
+
+describe('convertFrame', () => {
+  it('maps a source frame to the output frame at the same time', () => {
+    expect(convertFrame(25, 25, 30)).toBe(30);
+    expect(convertFrame(37, 25, 30)).toBe(44); // 44.4
+    expect(convertFrame(44, 30, 25)).toBe(37); // 36.67
+    expect(convertFrame(17, 30, 30)).toBe(17);
+  });
+
+  it('stays within half a frame however far into the reel', () => {
+    // An hour of a 23.976fps source at 30fps
+    const sourceFps = 24000 / 1001;
+    for (const frame of [0, 1, 1000, 50_000, 86_313]) {
+      const exact = (frame * 30) / sourceFps;
+      expect(Math.abs(convertFrame(frame, sourceFps, 30) - exact)).toBeLessThanOrEqual(0.5);
+    }
+  });
+});
@@ -23,6 +23,15 @@ export const framesToSeconds = (frames: number, fps: number): number => {
   return frames / fps;
 };
 
+/**
+ * Convert a frame position between frame rates, e.g. a 25fps source frame to 30fps output
+ * Each position is rounded once from frame 0, so the error stays under a frame
+ * however long the reel
+ */
+export const convertFrame = (frame: number, fromFps: number, toFps: number): number => {
+  return fromFps === toFps ? frame : Math.round((frame * toFps) / fromFps);
+};
+
 /**
  * Estimate duration in seconds for a given word count
  */